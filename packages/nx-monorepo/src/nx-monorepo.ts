@@ -25,6 +25,7 @@ import {
 import { DEFAULT_CONFIG, SyncpackConfig } from "./syncpack-options";
 
 const NX_MONOREPO_PLUGIN_PATH: string = ".nx/plugins/nx-monorepo-plugin.js";
+const NX_AWS_CACHE_RUNNER_PATH: string = ".nx/plugins/nx-aws-cache-runner.js";
 
 /**
  * Configuration for nx targetDependencies.
@@ -124,6 +125,37 @@ export interface NXConfig {
    * Read only access token if enabling nx cloud.
    */
   readonly nxCloudReadOnlyAccessToken?: string;
+
+  /**
+   * Configuration for enabling a remote cache backed by an S3 bucket i.e: the one provisioned by PDKPipeline.
+   *
+   * Note: Cannot be used in conjunction with nxCloudReadOnlyAccessToken.
+   */
+  readonly awsRemoteCache?: AwsRemoteCacheConfig;
+}
+
+/**
+ * S3 remote cache configuration.
+ *
+ * Cached tasks are copied to and from the bucket with the aws cli, which must be installed wherever
+ * nx is run, so credentials are resolved via the default AWS credential provider chain. Any value which is
+ * not provided can instead be set at build time via the NX_AWS_BUCKET and NX_AWS_REGION
+ * environment variables.
+ */
+export interface AwsRemoteCacheConfig {
+  /**
+   * Name of the S3 bucket to store the cache in.
+   *
+   * @default - the NX_AWS_BUCKET environment variable.
+   */
+  readonly bucket?: string;
+
+  /**
+   * Region of the S3 bucket.
+   *
+   * @default - the NX_AWS_REGION environment variable.
+   */
+  readonly region?: string;
 }
 
 /**
@@ -254,6 +286,15 @@ export class NxMonorepoProject extends TypeScriptProject {
       });
     }
 
+    if (
+      options.nxConfig?.nxCloudReadOnlyAccessToken &&
+      options.nxConfig?.awsRemoteCache
+    ) {
+      throw new Error(
+        "Only one of nxCloudReadOnlyAccessToken or awsRemoteCache can be configured."
+      );
+    }
+
     options.nxConfig?.nxCloudReadOnlyAccessToken &&
       this.addDevDeps("@nrwl/nx-cloud");
 
@@ -270,6 +311,15 @@ export class NxMonorepoProject extends TypeScriptProject {
       lines: fs.readFileSync(getPluginPath()).toString("utf-8").split("\n"),
     });
 
+    options.nxConfig?.awsRemoteCache &&
+      new TextFile(this, NX_AWS_CACHE_RUNNER_PATH, {
+        readonly: true,
+        lines: fs
+          .readFileSync(getAwsCacheRunnerPath())
+          .toString("utf-8")
+          .split("\n"),
+      });
+
     new JsonFile(this, "nx.json", {
       obj: {
         extends: "@nrwl/workspace/presets/npm.json",
@@ -279,11 +329,15 @@ export class NxMonorepoProject extends TypeScriptProject {
           default: {
             runner: options.nxConfig?.nxCloudReadOnlyAccessToken
               ? "@nrwl/nx-cloud"
+              : options.nxConfig?.awsRemoteCache
+              ? `./${NX_AWS_CACHE_RUNNER_PATH}`
               : "@nrwl/workspace/tasks-runners/default",
             options: {
               useDaemonProcess: false,
               cacheableOperations: ["build", "test"],
               accessToken: options.nxConfig?.nxCloudReadOnlyAccessToken,
+              awsBucket: options.nxConfig?.awsRemoteCache?.bucket,
+              awsRegion: options.nxConfig?.awsRemoteCache?.region,
             },
           },
         },
@@ -437,3 +491,7 @@ function isNodeProject(project: any) {
 function getPluginPath() {
   return path.join(__dirname, "plugin/nx-monorepo-plugin.js");
 }
+
+function getAwsCacheRunnerPath() {
+  return path.join(__dirname, "plugin/nx-aws-cache-runner.js");
+}
@@ -0,0 +1,81 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+const { execFile } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { promisify } = require("util");
+const defaultTasksRunner =
+  require("@nrwl/workspace/tasks-runners/default").default;
+
+const exec = promisify(execFile);
+
+/**
+ * Default nx tasks runner, with each cached task archived to s3://<bucket>/<hash>.tar.gz via the aws cli.
+ *
+ * The bucket and region are read from the awsBucket and awsRegion options, falling back to the
+ * NX_AWS_BUCKET and NX_AWS_REGION environment variables. Only the local cache is used if no bucket is set.
+ */
+module.exports = (tasks, options, context) => {
+  const { awsBucket, awsRegion, ...runnerOptions } = options;
+  const bucket = awsBucket || process.env.NX_AWS_BUCKET;
+  const region = awsRegion || process.env.NX_AWS_REGION;
+
+  return defaultTasksRunner(
+    tasks,
+    bucket
+      ? { ...runnerOptions, remoteCache: s3RemoteCache(bucket, region) }
+      : runnerOptions,
+    context
+  );
+};
+
+const s3RemoteCache = (bucket, region) => {
+  const s3Copy = (from, to) =>
+    exec("aws", [
+      "s3",
+      "cp",
+      from,
+      to,
+      "--only-show-errors",
+      ...(region ? ["--region", region] : []),
+    ]);
+  const objectUrl = (hash) => `s3://${bucket}/${hash}.tar.gz`;
+  const withArchive = async (hash, callback) => {
+    const archive = path.join(os.tmpdir(), `nx-cache-${hash}.tar.gz`);
+    try {
+      await callback(archive);
+      return true;
+    } finally {
+      fs.rmSync(archive, { force: true });
+    }
+  };
+
+  return {
+    // A task which is not in the bucket is a cache miss, so nx runs it as usual
+    retrieve: (hash, cacheDirectory) =>
+      withArchive(hash, async (archive) => {
+        await s3Copy(objectUrl(hash), archive);
+        await exec("tar", ["-xzf", archive, "-C", cacheDirectory]);
+      }).catch(() => false),
+    // The commit marker is archived with the outputs so that partially retrieved tasks are ignored
+    store: (hash, cacheDirectory) =>
+      withArchive(hash, async (archive) => {
+        await exec("tar", [
+          "-czf",
+          archive,
+          "-C",
+          cacheDirectory,
+          hash,
+          `${hash}.commit`,
+        ]);
+        await s3Copy(archive, objectUrl(hash));
+      }).catch((e) => {
+        console.warn(
+          `Unable to store task ${hash} in the remote cache s3://${bucket}: ${e.message}`
+        );
+        return false;
+      }),
+  };
+};
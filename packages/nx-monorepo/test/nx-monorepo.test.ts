@@ -58,6 +58,49 @@ describe("NX Monorepo Unit Tests", () => {
     expect(synthSnapshot(project)).toMatchSnapshot();
   });
 
+  it("AWS Remote Cache", () => {
+    const project = new NxMonorepoProject({
+      defaultReleaseBranch: "mainline",
+      name: "AwsRemoteCache",
+      nxConfig: {
+        awsRemoteCache: {
+          bucket: "nx-remote-cache",
+          region: "ap-southeast-2",
+        },
+      },
+    });
+    const snapshot = synthSnapshot(project);
+
+    expect(snapshot["nx.json"].tasksRunnerOptions.default).toEqual({
+      runner: "./.nx/plugins/nx-aws-cache-runner.js",
+      options: {
+        useDaemonProcess: false,
+        cacheableOperations: ["build", "test"],
+        awsBucket: "nx-remote-cache",
+        awsRegion: "ap-southeast-2",
+      },
+    });
+    expect(snapshot[".nx/plugins/nx-aws-cache-runner.js"]).toContain(
+      "remoteCache: s3RemoteCache(bucket, region)"
+    );
+  });
+
+  it("Validate single remote cache", () => {
+    expect(
+      () =>
+        new NxMonorepoProject({
+          defaultReleaseBranch: "mainline",
+          name: "SingleRemoteCache",
+          nxConfig: {
+            nxCloudReadOnlyAccessToken: "token",
+            awsRemoteCache: {},
+          },
+        })
+    ).toThrow(
+      "Only one of nxCloudReadOnlyAccessToken or awsRemoteCache can be configured."
+    );
+  });
+
   it("PNPM", () => {
     const project = new NxMonorepoProject({
       defaultReleaseBranch: "mainline",
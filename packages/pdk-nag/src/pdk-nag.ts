@@ -13,26 +13,43 @@
  See the License for the specific language governing permissions and
  limitations under the License.
  ******************************************************************************************************************** */
+import * as fs from "fs";
+import { join, relative } from "path";
 import {
   App,
   AppProps,
   Aspects,
+  CfnElement,
+  CfnResource,
   Stack,
+  Stage,
   StageSynthesisOptions,
 } from "aws-cdk-lib";
 import { CloudAssembly } from "aws-cdk-lib/cx-api";
 import {
   AwsSolutionsChecks,
+  NagMessageLevel,
+  NagPack,
   NagPackSuppression,
+  NagRuleCompliance,
   NagSuppressions,
 } from "cdk-nag";
 import { IConstruct } from "constructs";
+import parse = require("csv-parse/lib/sync"); // eslint-disable-line
 
 const CDK_NAG_MESSAGE_TYPES = {
   ERROR: "aws:cdk:error",
   WARNING: "aws:cdk:warning",
+  INFO: "aws:cdk:info",
+};
+
+/**
+ * Compliance recorded in the nag reports for suppressed findings and rules which failed to validate.
+ */
+const NAG_REPORT_COMPLIANCE = {
+  SUPPRESSED: "Suppressed",
+  UNKNOWN: "UNKNOWN",
 };
-const CDK_NAG_MESSAGE_TYPES_SET = new Set(Object.values(CDK_NAG_MESSAGE_TYPES));
 
 /**
  * Message instance.
@@ -47,6 +64,43 @@ export interface Message {
    * Message type as returned from cdk-nag.
    */
   readonly messageType: string;
+
+  /**
+   * Name of the nag pack which produced the message i.e: AwsSolutions.
+   */
+  readonly nagPackName: string;
+
+  /**
+   * Id of the rule which produced the message i.e: AwsSolutions-S1.
+   */
+  readonly ruleId: string;
+
+  /**
+   * Name of the rule within its nag pack i.e: S1.
+   */
+  readonly ruleName: string;
+
+  /**
+   * Level of the rule.
+   */
+  readonly level: NagMessageLevel;
+
+  /**
+   * Why the rule was triggered.
+   */
+  readonly info: string;
+
+  /**
+   * Whether the rule was suppressed via NagSuppressions.
+   */
+  readonly suppressed: boolean;
+
+  /**
+   * Reason provided when suppressing the rule.
+   *
+   * @default undefined
+   */
+  readonly suppressionReason?: string;
 }
 
 /**
@@ -58,10 +112,29 @@ export interface NagResult {
    */
   readonly resource: string;
 
+  /**
+   * Name of the stack containing the resource.
+   */
+  readonly stackName: string;
+
+  /**
+   * Logical id of the resource within its template.
+   *
+   * @default undefined
+   */
+  readonly logicalId?: string;
+
   /**
    * List of messages.
    */
   readonly messages: Message[];
+
+  /**
+   * Path of the template containing the resource, relative to the cloud assembly directory.
+   *
+   * @default undefined
+   */
+  readonly templateFile?: string;
 }
 
 /**
@@ -81,37 +154,81 @@ export interface PDKNagAppProps extends AppProps {
    * @default false
    */
   readonly failOnWarning?: boolean;
+
+  /**
+   * Nag packs to check the application against, which may include packs provided by cdk-nag
+   * (i.e: HIPAASecurityChecks) as well as custom packs extending NagPack.
+   *
+   * Note: the nag results are read from the compliance report of each pack, so every pack must have reports
+   * enabled (the cdk-nag default).
+   *
+   * @default - [new AwsSolutionsChecks({ verbose: true, reports: true })]
+   */
+  readonly nagPacks?: NagPack[];
 }
 
 /**
  * @inheritDoc
  */
 export class PDKNagApp extends App {
+  /**
+   * Name of the file within the cloud assembly directory which the nag results are written to on synth.
+   */
+  public static readonly NAG_RESULTS_FILE_NAME = "pdk-nag-results.json";
+
+  /**
+   * Name of the file within the cloud assembly directory which the suppressed nag results are written to on synth.
+   */
+  public static readonly SUPPRESSED_NAG_RESULTS_FILE_NAME =
+    "pdk-nag-suppressed-results.json";
+
   private readonly _nagResults: NagResult[] = [];
   private readonly failOnError: boolean;
   private readonly failOnWarning: boolean;
+  private readonly nagPacks: NagPack[];
+  private reportedNagResults: NagResult[] = [];
 
   constructor(props?: PDKNagAppProps) {
     super(props);
     this.failOnError = props?.failOnError ?? false;
     this.failOnWarning = props?.failOnWarning ?? false;
+    this.nagPacks = props?.nagPacks ?? [
+      new AwsSolutionsChecks({
+        verbose: true,
+        reports: true,
+      }),
+    ];
+    this.nagPacks.forEach((nagPack) => Aspects.of(this).add(nagPack));
   }
 
   synth(options?: StageSynthesisOptions): CloudAssembly {
     const assembly = super.synth(options);
 
+    // The reports are read on every synth to include any constructs added since the previous synth
+    this.reportedNagResults = this.readNagReports();
+
+    fs.writeFileSync(
+      join(assembly.directory, PDKNagApp.NAG_RESULTS_FILE_NAME),
+      JSON.stringify(this.nagResults(), undefined, 2)
+    );
+    fs.writeFileSync(
+      join(assembly.directory, PDKNagApp.SUPPRESSED_NAG_RESULTS_FILE_NAME),
+      JSON.stringify(this.suppressedNagResults(), undefined, 2)
+    );
+
     const typesToFail = new Set(
       [
         this.failOnError && CDK_NAG_MESSAGE_TYPES.ERROR,
         this.failOnWarning && CDK_NAG_MESSAGE_TYPES.WARNING,
       ].filter((t) => t)
     );
+    const nagResults = this.nagResults();
     if (
-      this._nagResults.find((r) =>
+      nagResults.find((r) =>
         r.messages.find((m) => typesToFail.has(m.messageType))
       )
     ) {
-      throw new Error(JSON.stringify(this._nagResults, undefined, 2));
+      throw new Error(JSON.stringify(nagResults, undefined, 2));
     }
 
     return assembly;
@@ -122,43 +239,158 @@ export class PDKNagApp extends App {
   }
 
   /**
-   * Returns a list of NagResult.
+   * Returns a list of NagResult containing the errors and warnings.
    *
    * Note: app.synth() must be called before this to retrieve results.
    */
   public nagResults(): NagResult[] {
-    return this._nagResults;
+    return [
+      ...this._nagResults,
+      ...filterMessages(this.reportedNagResults, (m) => !m.suppressed),
+    ];
+  }
+
+  /**
+   * Returns a list of NagResult containing the findings which were suppressed via NagSuppressions.
+   *
+   * Note: app.synth() must be called before this to retrieve results.
+   */
+  public suppressedNagResults(): NagResult[] {
+    return filterMessages(this.reportedNagResults, (m) => m.suppressed);
   }
-}
 
-class PDKNagAspect extends AwsSolutionsChecks {
-  private readonly app: PDKNagApp;
+  /**
+   * Reads the compliance reports written by each pack into a result for each resource with findings.
+   *
+   * Packs write the report of each stack to the cloud assembly directory of the stage containing it, provided
+   * they have reports enabled. A warning is logged for any pack which did not write a report.
+   */
+  private readNagReports(): NagResult[] {
+    const messages = new Map<string, Message[]>();
+    const stageOutdirs = this.node
+      .findAll()
+      .filter(Stage.isStage)
+      .map((stage) => stage.outdir);
 
-  constructor(app: PDKNagApp) {
-    super({
-      verbose: true,
-      reports: true,
+    if (this.node.findAll().some(CfnResource.isCfnResource)) {
+      this.nagPacks
+        .filter((nagPack) => nagPack.readReportStacks.length === 0)
+        .forEach((nagPack) =>
+          console.warn(
+            `The ${nagPack.readPackName} nag pack did not write a compliance report, so its results are not included. Ensure the pack has reports enabled.`
+          )
+        );
+    }
+
+    this.nagPacks.forEach((nagPack) =>
+      nagPack.readReportStacks
+        .flatMap((reportFile) =>
+          stageOutdirs
+            .map((outdir) => join(outdir, reportFile))
+            .filter((reportPath) => fs.existsSync(reportPath))
+        )
+        .forEach((reportPath) =>
+          uniqueLines(
+            parse(fs.readFileSync(reportPath), { from_line: 2 })
+          ).forEach((line) => {
+            const message = toMessage(nagPack, line);
+            const resource = line[1];
+            message &&
+              messages.set(resource, [
+                ...(messages.get(resource) ?? []),
+                message,
+              ]);
+          })
+        )
+    );
+
+    const nodes = new Map(
+      this.node.findAll().map((node) => [node.node.path, node])
+    );
+    return [...messages].flatMap(([resource, resourceMessages]) => {
+      const node = nodes.get(resource);
+      return node ? [this.toNagResult(node, resourceMessages)] : [];
     });
-    this.app = app;
   }
 
-  visit(node: IConstruct): void {
-    super.visit(node);
+  private toNagResult(node: IConstruct, messages: Message[]): NagResult {
+    const stack = Stack.of(node);
+    const stage = Stage.of(stack);
 
-    const results = node.node.metadata.filter((m) =>
-      CDK_NAG_MESSAGE_TYPES_SET.has(m.type)
-    );
-    results.length > 0 &&
-      this.app.addNagResult({
-        resource: node.node.path,
-        messages: results.map((m) => ({
-          messageDescription: m.data,
-          messageType: m.type,
-        })),
-      });
+    return {
+      resource: node.node.path,
+      stackName: stack.stackName,
+      logicalId:
+        node instanceof CfnElement ? stack.resolve(node.logicalId) : undefined,
+      messages,
+      templateFile:
+        stage && relative(this.outdir, join(stage.outdir, stack.templateFile)),
+    };
   }
 }
 
+/**
+ * Removes repeated lines from a nag compliance report, as packs append their findings to the report again
+ * each time the app is synthesized.
+ */
+const uniqueLines = (lines: string[][]): string[][] => [
+  ...new Map(lines.map((line) => [JSON.stringify(line), line])).values(),
+];
+
+/**
+ * Returns the results with only the messages matching the predicate, omitting results without any.
+ */
+const filterMessages = (
+  results: NagResult[],
+  predicate: (message: Message) => boolean
+): NagResult[] =>
+  results.flatMap((result) => {
+    const messages = result.messages.filter(predicate);
+    return messages.length > 0 ? [{ ...result, messages }] : [];
+  });
+
+/**
+ * Converts a line of a nag compliance report into a message, unless the resource complies with the rule.
+ */
+const toMessage = (
+  nagPack: NagPack,
+  [ruleId, , compliance, exceptionReason, level, info]: string[]
+): Message | undefined => {
+  if (
+    compliance === NagRuleCompliance.COMPLIANT ||
+    compliance === NagRuleCompliance.NOT_APPLICABLE
+  ) {
+    return undefined;
+  }
+
+  const rulePrefix = `${nagPack.readPackName}-`;
+  const suppressed = compliance === NAG_REPORT_COMPLIANCE.SUPPRESSED;
+  // Rules which fail to validate are reported by cdk-nag as warnings regardless of their level
+  const validationFailure = compliance === NAG_REPORT_COMPLIANCE.UNKNOWN;
+
+  return {
+    messageDescription: suppressed
+      ? `${ruleId} was triggered but suppressed. Provided reason: "${exceptionReason}"`
+      : validationFailure
+      ? `'${ruleId}' threw an error during validation. This is generally caused by a parameter referencing an intrinsic function.`
+      : `${ruleId}: ${info}`,
+    messageType: suppressed
+      ? CDK_NAG_MESSAGE_TYPES.INFO
+      : validationFailure || level !== NagMessageLevel.ERROR
+      ? CDK_NAG_MESSAGE_TYPES.WARNING
+      : CDK_NAG_MESSAGE_TYPES.ERROR,
+    nagPackName: nagPack.readPackName,
+    ruleId,
+    ruleName: ruleId.startsWith(rulePrefix)
+      ? ruleId.slice(rulePrefix.length)
+      : ruleId,
+    level: level as NagMessageLevel,
+    info,
+    suppressed,
+    suppressionReason: suppressed ? exceptionReason : undefined,
+  };
+};
+
 /**
  * Helper for create a Nag Enabled App.
  */
@@ -169,10 +401,7 @@ export class PDKNag {
    * @param props props to initialize the app with.
    */
   public static app(props?: PDKNagAppProps): PDKNagApp {
-    const app = new PDKNagApp(props);
-    Aspects.of(app).add(new PDKNagAspect(app));
-
-    return app;
+    return new PDKNagApp(props);
   }
 
   /**
@@ -0,0 +1,301 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import * as fs from "fs";
+import { join } from "path";
+import { Aspects, CfnResource, Stack, Stage } from "aws-cdk-lib";
+import { Annotations, Match } from "aws-cdk-lib/assertions";
+import { Bucket } from "aws-cdk-lib/aws-s3";
+import {
+  AwsSolutionsChecks,
+  HIPAASecurityChecks,
+  NagMessageLevel,
+  NagPack,
+  NagPackProps,
+  NagRuleCompliance,
+  NagSuppressions,
+} from "cdk-nag";
+import { IConstruct } from "constructs";
+import { PDKNag, PDKNagApp } from "../src";
+
+const NoBuckets = (node: CfnResource): NagRuleCompliance =>
+  node.cfnResourceType === "AWS::S3::Bucket"
+    ? NagRuleCompliance.NON_COMPLIANT
+    : NagRuleCompliance.NOT_APPLICABLE;
+
+const Unvalidated = (): NagRuleCompliance => {
+  throw new Error("Unable to validate.");
+};
+
+class TestChecks extends NagPack {
+  constructor(
+    props?: NagPackProps,
+    private readonly rules: ((node: CfnResource) => NagRuleCompliance)[] = [
+      NoBuckets,
+    ]
+  ) {
+    super(props);
+    this.packName = "Test";
+  }
+
+  public visit(node: IConstruct): void {
+    if (node instanceof CfnResource) {
+      this.rules.forEach((rule) =>
+        this.applyRule({
+          info: "The application contains a bucket.",
+          explanation: "Buckets are not allowed.",
+          level: NagMessageLevel.ERROR,
+          rule,
+          node,
+        })
+      );
+    }
+  }
+}
+
+const synthBucket = (app: PDKNagApp) => {
+  new Bucket(new Stack(app, "Stack"), "Bucket");
+  app.synth();
+
+  return app.nagResults().flatMap((result) => result.messages);
+};
+
+describe("PDK Nag Unit Tests", () => {
+  it("Default Pack", () => {
+    const messages = synthBucket(PDKNag.app());
+
+    expect(messages.length).toBeGreaterThan(0);
+    expect(
+      new Set(messages.map((message) => message.nagPackName))
+    ).toStrictEqual(new Set(["AwsSolutions"]));
+    expect(messages.map((message) => message.ruleId)).toContain(
+      "AwsSolutions-S1"
+    );
+  });
+
+  it("Custom Pack", () => {
+    const messages = synthBucket(PDKNag.app({ nagPacks: [new TestChecks()] }));
+
+    expect(messages).toStrictEqual([
+      expect.objectContaining({
+        messageType: "aws:cdk:error",
+        nagPackName: "Test",
+        ruleId: "Test-NoBuckets",
+      }),
+    ]);
+  });
+
+  it("Multiple Packs", () => {
+    const messages = synthBucket(
+      PDKNag.app({
+        nagPacks: [
+          new AwsSolutionsChecks(),
+          new HIPAASecurityChecks(),
+          new TestChecks(),
+        ],
+      })
+    );
+
+    expect(
+      new Set(messages.map((message) => message.nagPackName))
+    ).toStrictEqual(new Set(["AwsSolutions", "HIPAA.Security", "Test"]));
+    messages.forEach((message) =>
+      expect(message.ruleId.startsWith(`${message.nagPackName}-`)).toBe(true)
+    );
+  });
+
+  it("Custom Pack Fails On Error", () => {
+    expect(() =>
+      synthBucket(
+        PDKNag.app({ nagPacks: [new TestChecks()], failOnError: true })
+      )
+    ).toThrow(/Test-NoBuckets/);
+  });
+
+  it("Structured Results", () => {
+    const app = PDKNag.app();
+    const stack = new Stack(app, "Stack");
+    const bucket = new Bucket(stack, "Bucket");
+    NagSuppressions.addResourceSuppressions(bucket, [
+      {
+        id: "AwsSolutions-S1",
+        reason: "Access logs are not required for this bucket.",
+      },
+    ]);
+    const assembly = app.synth();
+
+    const result = {
+      resource: "Stack/Bucket/Resource",
+      stackName: "Stack",
+      logicalId: stack.getLogicalId(bucket.node.defaultChild as CfnResource),
+      templateFile: "Stack.template.json",
+    };
+    const suppressedResults = [
+      {
+        ...result,
+        messages: [
+          {
+            messageDescription:
+              'AwsSolutions-S1 was triggered but suppressed. Provided reason: "Access logs are not required for this bucket."',
+            messageType: "aws:cdk:info",
+            nagPackName: "AwsSolutions",
+            ruleId: "AwsSolutions-S1",
+            ruleName: "S1",
+            level: NagMessageLevel.ERROR,
+            info: "The S3 Bucket has server access logs disabled.",
+            suppressed: true,
+            suppressionReason: "Access logs are not required for this bucket.",
+          },
+        ],
+      },
+    ];
+    const results = [
+      expect.objectContaining({
+        ...result,
+        messages: expect.arrayContaining([
+          {
+            messageDescription:
+              "AwsSolutions-S10: The S3 Bucket or bucket policy does not require requests to use SSL.",
+            messageType: "aws:cdk:error",
+            nagPackName: "AwsSolutions",
+            ruleId: "AwsSolutions-S10",
+            ruleName: "S10",
+            level: NagMessageLevel.ERROR,
+            info: "The S3 Bucket or bucket policy does not require requests to use SSL.",
+            suppressed: false,
+          },
+        ]),
+      }),
+    ];
+    const readResults = (fileName: string) =>
+      JSON.parse(
+        fs.readFileSync(join(assembly.directory, fileName)).toString()
+      );
+
+    expect(app.nagResults()).toEqual(results);
+    expect(readResults(PDKNagApp.NAG_RESULTS_FILE_NAME)).toEqual(results);
+    expect(
+      app
+        .nagResults()
+        .flatMap((r) => r.messages)
+        .filter((message) => message.suppressed)
+    ).toEqual([]);
+    expect(app.suppressedNagResults()).toEqual(suppressedResults);
+    expect(readResults(PDKNagApp.SUPPRESSED_NAG_RESULTS_FILE_NAME)).toEqual(
+      suppressedResults
+    );
+  });
+
+  it("Results Updated On Each Synth", () => {
+    const app = PDKNag.app({ nagPacks: [new TestChecks()] });
+    new Bucket(new Stack(app, "First"), "Bucket");
+    app.synth();
+    new Bucket(new Stack(app, "Second"), "Bucket");
+    app.synth({ force: true });
+
+    expect(app.nagResults()).toEqual([
+      expect.objectContaining({
+        resource: "First/Bucket/Resource",
+        messages: [expect.objectContaining({ ruleId: "Test-NoBuckets" })],
+      }),
+      expect.objectContaining({
+        resource: "Second/Bucket/Resource",
+        messages: [expect.objectContaining({ ruleId: "Test-NoBuckets" })],
+      }),
+    ]);
+  });
+
+  it("Reports Disabled", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const messages = synthBucket(
+      PDKNag.app({
+        nagPacks: [
+          new AwsSolutionsChecks(),
+          new TestChecks({ reports: false }),
+        ],
+      })
+    );
+
+    expect(
+      new Set(messages.map((message) => message.nagPackName))
+    ).toStrictEqual(new Set(["AwsSolutions"]));
+    expect(warn).toHaveBeenCalledWith(
+      "The Test nag pack did not write a compliance report, so its results are not included. Ensure the pack has reports enabled."
+    );
+    warn.mockRestore();
+  });
+
+  it("Stage Results", () => {
+    const app = PDKNag.app();
+    const stage = new Stage(app, "Dev");
+    // Aspects are not inherited by nested stages
+    Aspects.of(app).all.forEach((aspect) => Aspects.of(stage).add(aspect));
+    const stack = new Stack(stage, "Stack");
+    const bucket = new Bucket(stack, "Bucket");
+    app.synth();
+
+    expect(app.nagResults()).toEqual([
+      expect.objectContaining({
+        resource: "Dev/Stack/Bucket/Resource",
+        stackName: "Dev-Stack",
+        logicalId: stack.getLogicalId(bucket.node.defaultChild as CfnResource),
+        templateFile: `assembly-Dev/${stack.templateFile}`,
+      }),
+    ]);
+  });
+
+  it("Validation Failure", () => {
+    const messages = synthBucket(
+      PDKNag.app({
+        nagPacks: [new TestChecks(undefined, [NoBuckets, Unvalidated])],
+      })
+    );
+
+    expect(messages).toContainEqual(
+      expect.objectContaining({
+        messageType: "aws:cdk:warning",
+        ruleId: "Test-Unvalidated",
+        level: NagMessageLevel.ERROR,
+        suppressed: false,
+      })
+    );
+  });
+
+  it("Default Pack Does Not Log Ignores", () => {
+    const app = PDKNag.app();
+    const stack = new Stack(app, "Stack");
+    NagSuppressions.addResourceSuppressions(new Bucket(stack, "Bucket"), [
+      {
+        id: "AwsSolutions-S1",
+        reason: "Access logs are not required for this bucket.",
+      },
+    ]);
+    app.synth();
+
+    expect(
+      Annotations.fromStack(stack).findInfo(
+        "*",
+        Match.stringLikeRegexp("CdkNagSuppression")
+      )
+    ).toEqual([]);
+    expect(
+      app
+        .suppressedNagResults()
+        .flatMap((result) => result.messages)
+        .map((message) => message.ruleId)
+    ).toEqual(["AwsSolutions-S1"]);
+  });
+});
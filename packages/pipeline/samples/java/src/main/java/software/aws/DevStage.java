@@ -0,0 +1,17 @@
+package software.aws;
+
+import org.jetbrains.annotations.Nullable;
+import software.amazon.awscdk.Stage;
+import software.amazon.awscdk.StageProps;
+import software.constructs.Construct;
+
+/**
+ * Stacks deployed to the Dev environment.
+ */
+public class DevStage extends Stage {
+    public DevStage(Construct scope, String id, @Nullable StageProps props) {
+        super(scope, id, props);
+
+        new ApplicationStack(this, "MyApplication", null);
+    }
+}
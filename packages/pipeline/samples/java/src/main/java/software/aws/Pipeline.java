@@ -1,13 +1,20 @@
 package software.aws;
 
-import software.aws.awsprototypingsdk.pdknag.PDKNagApp;
-import software.aws.awsprototypingsdk.pdknag.PDKNag;
+import com.fasterxml.jackson.databind.JsonNode;
+import com.fasterxml.jackson.databind.ObjectMapper;
+import java.io.File;
+import java.io.IOException;
 import software.amazon.awscdk.Environment;
 import software.amazon.awscdk.StackProps;
 import software.amazon.awscdk.StageProps;
+import software.aws.awsprototypingsdk.pdknag.PDKNag;
+import software.aws.awsprototypingsdk.pdknag.PDKNagApp;
 
 public class Pipeline {
-    public static void main(String[] args) {
+    public static void main(String[] args) throws IOException {
+        // The account, region and approval of each environment are kept in sync with the projen configuration via environments.json
+        JsonNode environments = new ObjectMapper().readTree(new File("environments.json")).get("environments");
+
         PDKNagApp app = PDKNag.app();
         PipelineStack pipelineStack = new PipelineStack(app, "PipelineStack", StackProps.builder()
                 .env(Environment.builder()
@@ -16,18 +23,14 @@ public class Pipeline {
                         .build())
                 .build());
 
-        ApplicationStage devStage = new ApplicationStage(app, "Dev", StageProps.builder()
+        pipelineStack.getPipeline().addStage(new DevStage(app, "Dev", StageProps.builder()
                 .env(Environment.builder()
-                        .account(System.getenv("CDK_DEFAULT_ACCOUNT"))
-                        .region(System.getenv("CDK_DEFAULT_REGION"))
+                        .account(environments.get("Dev").path("account").asText(System.getenv("CDK_DEFAULT_ACCOUNT")))
+                        .region(environments.get("Dev").path("region").asText(System.getenv("CDK_DEFAULT_REGION")))
                         .build())
-                .build());
-
-        pipelineStack.getPipeline().addStage(devStage);
-
-        // Add additional stages here i.e. Prod
+                .build()));
 
         pipelineStack.getPipeline().buildPipeline(); // Needed for CDK Nag
         app.synth();
     }
-}
\ No newline at end of file
+}
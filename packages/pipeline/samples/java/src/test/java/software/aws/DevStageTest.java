@@ -0,0 +1,44 @@
+package software.aws;
+
+import static org.junit.jupiter.api.Assertions.assertEquals;
+
+import com.fasterxml.jackson.databind.ObjectMapper;
+import java.io.IOException;
+import java.nio.charset.StandardCharsets;
+import java.nio.file.Files;
+import java.nio.file.Path;
+import java.nio.file.Paths;
+import org.junit.jupiter.api.Test;
+import software.amazon.awscdk.App;
+import software.amazon.awscdk.Stack;
+import software.amazon.awscdk.assertions.Template;
+import software.constructs.IConstruct;
+
+public class DevStageTest {
+    private static final Path SNAPSHOT_DIR = Paths.get("src", "test", "resources", "__snapshots__", "DevStageTest");
+
+    @Test
+    public void testDevStage() throws IOException {
+        App app = new App();
+        DevStage stage = new DevStage(app, "Dev", null);
+
+        for (IConstruct construct : stage.getNode().findAll()) {
+            if (!(construct instanceof Stack)) {
+                continue;
+            }
+
+            Stack stack = (Stack) construct;
+            String template = new ObjectMapper().writerWithDefaultPrettyPrinter()
+                    .writeValueAsString(Template.fromStack(stack).toJSON());
+            Path snapshot = SNAPSHOT_DIR.resolve(stack.getStackName() + ".json");
+
+            // The snapshot is recorded on the first run, delete it to accept changes to the template
+            if (!Files.exists(snapshot)) {
+                Files.createDirectories(SNAPSHOT_DIR);
+                Files.write(snapshot, template.getBytes(StandardCharsets.UTF_8));
+            }
+
+            assertEquals(new String(Files.readAllBytes(snapshot), StandardCharsets.UTF_8), template);
+        }
+    }
+}
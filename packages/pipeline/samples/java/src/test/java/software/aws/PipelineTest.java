@@ -1,10 +1,72 @@
 package software.aws;
 
+import static org.junit.jupiter.api.Assertions.assertEquals;
+
+import com.fasterxml.jackson.databind.ObjectMapper;
+import java.io.IOException;
+import java.nio.charset.StandardCharsets;
+import java.nio.file.Files;
+import java.nio.file.Path;
+import java.nio.file.Paths;
+import java.util.Collections;
+import java.util.stream.Collectors;
 import org.junit.jupiter.api.Test;
+import software.amazon.awscdk.Environment;
+import software.amazon.awscdk.Stack;
+import software.amazon.awscdk.StackProps;
+import software.amazon.awscdk.StageProps;
+import software.amazon.awscdk.assertions.Template;
+import software.aws.awsprototypingsdk.pdknag.PDKNag;
+import software.aws.awsprototypingsdk.pdknag.PDKNagApp;
+import software.aws.awsprototypingsdk.pdknag.PDKNagAppProps;
+import software.constructs.IConstruct;
 
 public class PipelineTest {
-  @Test
-  public void testPipeline() {
-    System.out.println("Implement me!");
-  }
-}
\ No newline at end of file
+    private static final Path SNAPSHOT_DIR = Paths.get("src", "test", "resources", "__snapshots__", "PipelineTest");
+
+    @Test
+    public void testPipeline() throws IOException {
+        // Synthesis fails if any of the stacks contain unsuppressed nag errors
+        PDKNagApp app = PDKNag.app(PDKNagAppProps.builder().failOnError(true).build());
+        PipelineStack pipelineStack = new PipelineStack(app, "PipelineStack", StackProps.builder()
+                .env(Environment.builder()
+                        .account("123456789012")
+                        .region("us-east-1")
+                        .build())
+                .build());
+
+        pipelineStack.getPipeline().addStage(new DevStage(app, "Dev", StageProps.builder()
+                .env(Environment.builder()
+                        .account("123456789012")
+                        .region("us-east-1")
+                        .build())
+                .build()));
+
+        pipelineStack.getPipeline().buildPipeline(); // Needed for CDK Nag
+        app.synth();
+
+        assertEquals(Collections.emptyList(), app.nagResults().stream()
+                .filter(result -> result.getMessages().stream()
+                        .anyMatch(message -> message.getMessageType().equals("aws:cdk:error")))
+                .collect(Collectors.toList()));
+
+        for (IConstruct construct : app.getNode().findAll()) {
+            if (!(construct instanceof Stack)) {
+                continue;
+            }
+
+            Stack stack = (Stack) construct;
+            String template = new ObjectMapper().writerWithDefaultPrettyPrinter()
+                    .writeValueAsString(Template.fromStack(stack).toJSON());
+            Path snapshot = SNAPSHOT_DIR.resolve(stack.getStackName() + ".json");
+
+            // The snapshot is recorded on the first run, delete it to accept changes to the template
+            if (!Files.exists(snapshot)) {
+                Files.createDirectories(SNAPSHOT_DIR);
+                Files.write(snapshot, template.getBytes(StandardCharsets.UTF_8));
+            }
+
+            assertEquals(new String(Files.readAllBytes(snapshot), StandardCharsets.UTF_8), template);
+        }
+    }
+}
@@ -2,8 +2,11 @@ from aws_cdk import Stage
 
 from application_stack import ApplicationStack
 
-class ApplicationStage(Stage):
+
+class DevStage(Stage):
+    """Stacks deployed to the Dev environment."""
+
     def __init__(self, scope, id, **kwargs):
         super().__init__(scope, id, **kwargs)
 
-        ApplicationStack(self, 'MyApplication')
+        ApplicationStack(self, "MyApplication")
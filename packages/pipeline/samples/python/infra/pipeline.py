@@ -1,24 +1,22 @@
+import json
 import os
-from aws_cdk import App, Environment
-from pipeline_stack import PipelineStack
-from application_stage import ApplicationStage
+from aws_cdk import Environment
 from aws_prototyping_sdk.pdk_nag import PDKNag
+from dev_stage import DevStage
+from pipeline_stack import PipelineStack
 
-app = PDKNag.app()
+# The account, region and approval of each environment are kept in sync with the projen configuration via environments.json
+with open("environments.json") as manifest:
+    environments = json.load(manifest)["environments"]
 
-pipelineStack = PipelineStack(app, "PipelineStack", env=Environment(
-    account=os.environ["CDK_DEFAULT_ACCOUNT"],
-    region=os.environ["CDK_DEFAULT_REGION"]
-))
+app = PDKNag.app()
 
-devStage = ApplicationStage(app, "Dev", env=Environment(
+pipeline_stack = PipelineStack(app, "PipelineStack", env=Environment(
     account=os.environ["CDK_DEFAULT_ACCOUNT"],
     region=os.environ["CDK_DEFAULT_REGION"]
 ))
 
-pipelineStack.pipeline.add_stage(devStage)
-
-# Add additional stages here i.e. Prod
+pipeline_stack.pipeline.add_stage(DevStage(app, "Dev", env=Environment(account=environments["Dev"].get("account", os.environ["CDK_DEFAULT_ACCOUNT"]), region=environments["Dev"].get("region", os.environ["CDK_DEFAULT_REGION"]))))
 
-pipelineStack.pipeline.build_pipeline()  # Needed for CDK Nag
+pipeline_stack.pipeline.build_pipeline()  # Needed for CDK Nag
 app.synth()
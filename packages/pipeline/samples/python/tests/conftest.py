@@ -0,0 +1,5 @@
+import os
+import sys
+
+# Allows the tests to import the pipeline sources in the same way as the pipeline entrypoint
+sys.path.insert(0, os.path.join(os.path.dirname(__file__), "..", "infra"))
@@ -0,0 +1,12 @@
+from aws_cdk import App, Stack
+from aws_cdk.assertions import Template
+
+from dev_stage import DevStage
+
+
+def test_dev_stage(snapshot):
+    app = App()
+    stage = DevStage(app, "Dev")
+
+    for stack in [c for c in stage.node.find_all() if isinstance(c, Stack)]:
+        assert Template.from_stack(stack).to_json() == snapshot
@@ -1,15 +1,29 @@
-import pytest
-from aws_cdk import App
+from aws_cdk import Environment, Stack
 from aws_cdk.assertions import Template
+from aws_prototyping_sdk.pdk_nag import PDKNag
 
-from infra.pipeline_stack import PipelineStack
+from dev_stage import DevStage
+from pipeline_stack import PipelineStack
 
-@pytest.fixture(scope='module')
-def template():
-  app = App()
-  stack = PipelineStack(app, "pipeline-stack-test")
-  template = Template.from_stack(stack)
-  yield template
 
-def test_pipeline_found(template):
-  template.resource_count_is("AWS::CodePipeline::Pipeline", 1)
+def test_pipeline(snapshot):
+    # Synthesis fails if any of the stacks contain unsuppressed nag errors
+    app = PDKNag.app(fail_on_error=True)
+
+    pipeline_stack = PipelineStack(app, "PipelineStack", env=Environment(
+        account="123456789012",
+        region="us-east-1"
+    ))
+
+    pipeline_stack.pipeline.add_stage(DevStage(app, "Dev", env=Environment(account="123456789012", region="us-east-1")))
+
+    pipeline_stack.pipeline.build_pipeline()  # Needed for CDK Nag
+    app.synth()
+
+    assert [
+        result for result in app.nag_results()
+        if any(message.message_type == "aws:cdk:error" for message in result.messages)
+    ] == []
+
+    for stack in [c for c in app.node.find_all() if isinstance(c, Stack)]:
+        assert Template.from_stack(stack).to_json() == snapshot
@@ -17,10 +17,13 @@ import { Stage, StageProps } from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import { ApplicationStack } from './application-stack';
 
-export class ApplicationStage extends Stage {
+/**
+ * Stacks deployed to the Dev environment.
+ */
+export class DevStage extends Stage {
   constructor(scope: Construct, id: string, props?: StageProps) {
     super(scope, id, props);
 
     new ApplicationStack(this, 'MyApplication');
   }
-}
\ No newline at end of file
+}
@@ -13,11 +13,14 @@
  See the License for the specific language governing permissions and
  limitations under the License.
  ******************************************************************************************************************** */
-
+import * as fs from 'fs';
 import { PDKNag } from 'aws-prototyping-sdk/pdk-nag';
-import { ApplicationStage } from './application-stage';
+import { DevStage } from './dev-stage';
 import { PipelineStack } from './pipeline-stack';
 
+// The account, region and approval of each environment are kept in sync with the projen configuration via environments.json
+const { environments } = JSON.parse(fs.readFileSync('environments.json', 'utf-8'));
+
 const app = PDKNag.app();
 
 const pipelineStack = new PipelineStack(app, 'PipelineStack', {
@@ -27,16 +30,14 @@ const pipelineStack = new PipelineStack(app, 'PipelineStack', {
   },
 });
 
-const devStage = new ApplicationStage(app, 'Dev', {
-  env: {
-    account: process.env.CDK_DEFAULT_ACCOUNT!, // Replace with Dev account
-    region: process.env.CDK_DEFAULT_REGION!, // Replace with Dev region
-  },
-});
-
-pipelineStack.pipeline.addStage(devStage);
-
-// Add additional stages here i.e. Prod
+pipelineStack.pipeline.addStage(
+  new DevStage(app, 'Dev', {
+    env: {
+      account: environments['Dev'].account ?? process.env.CDK_DEFAULT_ACCOUNT!,
+      region: environments['Dev'].region ?? process.env.CDK_DEFAULT_REGION!,
+    },
+  }),
+);
 
 pipelineStack.pipeline.buildPipeline(); // Needed for CDK Nag
 app.synth();
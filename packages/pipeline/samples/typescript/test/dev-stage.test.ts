@@ -0,0 +1,30 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+import { App, Stack } from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { DevStage } from '../src/dev-stage';
+
+test('DevStage', () => {
+  const app = new App();
+  const stage = new DevStage(app, 'Dev');
+
+  stage.node
+    .findAll()
+    .filter(Stack.isStack)
+    .forEach((stack) =>
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot(stack.stackName),
+    );
+});
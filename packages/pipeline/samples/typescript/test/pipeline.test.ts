@@ -13,19 +13,47 @@
  See the License for the specific language governing permissions and
  limitations under the License.
  ******************************************************************************************************************** */
-import { App } from 'aws-cdk-lib';
+import { Stack } from 'aws-cdk-lib';
 import { Template } from 'aws-cdk-lib/assertions';
+import { PDKNag } from 'aws-prototyping-sdk/pdk-nag';
+import { DevStage } from '../src/dev-stage';
 import { PipelineStack } from '../src/pipeline-stack';
 
-test('Snapshot', () => {
-  const app = new App();
-  const stack = new PipelineStack(app, 'pipeline-test', {
+test('Pipeline', () => {
+  // Synthesis fails if any of the stacks contain unsuppressed nag errors
+  const app = PDKNag.app({ failOnError: true });
+
+  const pipelineStack = new PipelineStack(app, 'PipelineStack', {
     env: {
-      account: process.env.CDK_DEFAULT_ACCOUNT!,
-      region: process.env.CDK_DEFAULT_REGION!,
+      account: '123456789012',
+      region: 'us-east-1',
     },
   });
 
-  const template = Template.fromStack(stack);
-  expect(template.toJSON()).toMatchSnapshot();
-});
\ No newline at end of file
+  pipelineStack.pipeline.addStage(
+    new DevStage(app, 'Dev', {
+      env: {
+        account: '123456789012',
+        region: 'us-east-1',
+      },
+    }),
+  );
+
+  pipelineStack.pipeline.buildPipeline(); // Needed for CDK Nag
+  app.synth();
+
+  expect(
+    app
+      .nagResults()
+      .filter((result) =>
+        result.messages.some((message) => message.messageType === 'aws:cdk:error'),
+      ),
+  ).toEqual([]);
+
+  app.node
+    .findAll()
+    .filter(Stack.isStack)
+    .forEach((stack) =>
+      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot(stack.stackName),
+    );
+});
@@ -0,0 +1,225 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { Token } from "aws-cdk-lib";
+import { IStage } from "aws-cdk-lib/aws-codepipeline";
+import { ManualApprovalAction } from "aws-cdk-lib/aws-codepipeline-actions";
+import { Effect, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { ITopic } from "aws-cdk-lib/aws-sns";
+import {
+  CodeBuildStep,
+  CodePipelineActionFactoryResult,
+  FileSet,
+  ICodePipelineActionFactory,
+  ProduceActionOptions,
+  Step,
+} from "aws-cdk-lib/pipelines";
+
+const CHANGE_SET_REVIEW_DIR = "change-set-review";
+
+/**
+ * Configuration of a manual approval gate prior to deploying a stage.
+ */
+export interface StageApprovalConfig {
+  /**
+   * Topic to notify when an approval is pending.
+   *
+   * @default - an encrypted topic shared by all stages of the pipeline.
+   */
+  readonly notificationTopic?: ITopic;
+
+  /**
+   * Email addresses to notify when an approval is pending. Only applies to the default topic.
+   *
+   * @default undefined
+   */
+  readonly notificationEmails?: string[];
+
+  /**
+   * Whether the changes to each stack in the stage should be rendered prior to requesting approval.
+   *
+   * @default false
+   */
+  readonly changeSetReview?: boolean;
+
+  /**
+   * Comment to include in the approval request.
+   *
+   * @default - "Approve deployment of <stage name>"
+   */
+  readonly comment?: string;
+}
+
+/**
+ * NotifyingManualApprovalStep properties.
+ */
+export interface NotifyingManualApprovalStepProps {
+  /**
+   * Topic to notify when an approval is pending.
+   *
+   * @default undefined
+   */
+  readonly notificationTopic?: ITopic;
+
+  /**
+   * Comment to include in the approval request. Truncated to MAX_COMMENT_LENGTH when it contains no
+   * references to the variables of prior steps, which are only known once the pipeline runs.
+   *
+   * @default undefined
+   */
+  readonly comment?: string;
+
+  /**
+   * Link to include in the approval request i.e: the change set review build.
+   *
+   * @default undefined
+   */
+  readonly externalEntityLink?: string;
+}
+
+/**
+ * A manual approval step which notifies an SNS topic when an approval is pending.
+ */
+export class NotifyingManualApprovalStep
+  extends Step
+  implements ICodePipelineActionFactory
+{
+  /**
+   * Maximum length of the comment of a manual approval action.
+   */
+  public static readonly MAX_COMMENT_LENGTH = 500;
+
+  /**
+   * Topic to notify when an approval is pending.
+   */
+  public readonly notificationTopic?: ITopic;
+
+  /**
+   * Comment to include in the approval request.
+   */
+  public readonly comment?: string;
+
+  /**
+   * Link to include in the approval request.
+   */
+  public readonly externalEntityLink?: string;
+
+  constructor(id: string, props?: NotifyingManualApprovalStepProps) {
+    super(id);
+
+    this.notificationTopic = props?.notificationTopic;
+    this.comment =
+      props?.comment && !Token.isUnresolved(props.comment)
+        ? props.comment.substring(
+            0,
+            NotifyingManualApprovalStep.MAX_COMMENT_LENGTH
+          )
+        : props?.comment;
+    this.externalEntityLink = props?.externalEntityLink;
+
+    // Allows the comment and link to reference variables exported by prior steps
+    this.discoverReferencedOutputs({
+      comment: this.comment,
+      externalEntityLink: this.externalEntityLink,
+    });
+  }
+
+  produceAction(
+    stage: IStage,
+    options: ProduceActionOptions
+  ): CodePipelineActionFactoryResult {
+    stage.addAction(
+      new ManualApprovalAction({
+        actionName: options.actionName,
+        runOrder: options.runOrder,
+        notificationTopic: this.notificationTopic,
+        additionalInformation: this.comment,
+        externalEntityLink: this.externalEntityLink,
+      })
+    );
+
+    return { runOrdersConsumed: 1 };
+  }
+}
+
+/**
+ * ChangeSetReviewStep properties.
+ */
+export interface ChangeSetReviewStepProps {
+  /**
+   * Cloud assembly produced by the synth step.
+   */
+  readonly input: FileSet;
+
+  /**
+   * Name of the stage whose stacks should be reviewed.
+   */
+  readonly stageName: string;
+
+  /**
+   * ARN of the cdk bootstrap lookup role of the target environment, used to read the deployed templates.
+   */
+  readonly lookupRoleArn: string;
+
+  /**
+   * Maximum length of the exported summary, so that it fits within the approval request it is included in.
+   *
+   * @default 400
+   */
+  readonly summaryMaxLength?: number;
+}
+
+/**
+ * A step which renders the changes to each stack within a stage compared to what is currently deployed.
+ *
+ * The full diff is stored as an artifact of the step and a summary is exported for use within approval requests.
+ */
+export class ChangeSetReviewStep extends CodeBuildStep {
+  /**
+   * Summary of the resource changes, truncated to fit within an approval request.
+   */
+  public readonly summary: string;
+
+  /**
+   * Link to the build containing the full diff.
+   */
+  public readonly buildUrl: string;
+
+  constructor(id: string, props: ChangeSetReviewStepProps) {
+    super(id, {
+      input: props.input,
+      commands: [
+        `mkdir -p ${CHANGE_SET_REVIEW_DIR}`,
+        `npx aws-cdk@2 diff --app . --no-color "${props.stageName}/*" 2>&1 | tee ${CHANGE_SET_REVIEW_DIR}/diff.txt`,
+        `export CHANGE_SET_SUMMARY="$(grep -E '^\\[[-+~]\\]' ${CHANGE_SET_REVIEW_DIR}/diff.txt | head -c ${
+          props.summaryMaxLength ?? 400
+        } | tr '\\n' ';')"`,
+        'export CHANGE_SET_URL="$CODEBUILD_BUILD_URL"',
+      ],
+      primaryOutputDirectory: CHANGE_SET_REVIEW_DIR,
+      rolePolicyStatements: [
+        new PolicyStatement({
+          actions: ["sts:AssumeRole"],
+          effect: Effect.ALLOW,
+          resources: [props.lookupRoleArn],
+        }),
+      ],
+    });
+
+    this.summary = this.exportedVariable("CHANGE_SET_SUMMARY");
+    this.buildUrl = this.exportedVariable("CHANGE_SET_URL");
+  }
+}
@@ -0,0 +1,87 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+/**
+ * Prefix within the artifacts bucket under which scan reports are archived.
+ */
+export const CODE_SCAN_REPORT_PREFIX = "code-scans";
+
+/**
+ * Directory containing the reports produced by the scan, relative to the working directory of the build.
+ */
+export const CODE_SCAN_REPORT_DIR = "reports";
+
+/**
+ * Downloads the source and built artifacts of the synth build identified by SYNTH_BUILD_ID into the src and
+ * built directories respectively.
+ */
+export const downloadSourceAndArtifacts = () => [
+  'export BUILT_ARTIFACT_URI=`aws codebuild batch-get-builds --ids $SYNTH_BUILD_ID | jq -r \'.builds[0].secondaryArtifacts[] | select(.artifactIdentifier == "Synth__") | .location\' | awk \'{sub("arn:aws:s3:::","s3://")}1\' $1`',
+  "export SYNTH_SOURCE_URI=`aws codebuild batch-get-builds --ids $SYNTH_BUILD_ID | jq -r '.builds[0].sourceVersion' | awk '{sub(\"arn:aws:s3:::\",\"s3://\")}1' $1`",
+  "aws s3 cp $SYNTH_SOURCE_URI source.zip",
+  "aws s3 cp $BUILT_ARTIFACT_URI built.zip",
+  "unzip source.zip -d src",
+  "unzip built.zip -d built",
+  "rm source.zip built.zip",
+];
+
+/**
+ * Copies the artifacts produced by the build which are relevant to a scan (i.e: coverage and test reports,
+ * compiled Java classes and cloud assemblies) from the built directory into the src directory.
+ */
+export const mergeBuiltArtifacts = (includeGlobsForScan?: string[]) =>
+  `rsync -a built/* src --include="*/" ${
+    includeGlobsForScan
+      ? includeGlobsForScan.map((g) => `--include ${g}`).join(" ")
+      : ""
+  } --include="**/coverage/**" --include="**/cdk.out/**" --include="**/coverage.xml" --include="**/pytest*.xml" --include="**/target/classes/**" --include="**/target/surefire-reports/**" --include="**/target/site/jacoco/**" --exclude="**/node_modules/**/*" --exclude="**/.env/**" --exclude="*" --prune-empty-dirs`;
+
+/**
+ * Converts the output of npm audit --json into a SARIF report.
+ */
+export const npmAuditToSarif = (auditPath: string, sarifPath: string) =>
+  `jq '{version: "2.1.0", runs: [{tool: {driver: {name: "npm audit", informationUri: "https://docs.npmjs.com/cli/commands/npm-audit"}}, results: [(.vulnerabilities // {})[] | {ruleId: .name, level: (if .severity == "critical" or .severity == "high" then "error" elif .severity == "moderate" then "warning" else "note" end), message: {text: "\\(.name)@\\(.range) (\\(.severity)): \\([.via[] | if type == "object" then .title else "via \\(.)" end] | join(", "))"}, locations: [{physicalLocation: {artifactLocation: {uri: "package-lock.json"}}}]}]}]}' ${auditPath} > ${sarifPath}`;
+
+/**
+ * Converts the json output of cfn_nag into a SARIF report.
+ */
+export const cfnNagToSarif = (reportPath: string, sarifPath: string) =>
+  `jq '{version: "2.1.0", runs: [{tool: {driver: {name: "cfn_nag", informationUri: "https://github.com/stelligent/cfn_nag"}}, results: [.[] | .filename as $file | .file_results.violations[] | {ruleId: .id, level: (if .type == "FAIL" then "error" else "warning" end), message: {text: "\\(.message) (\\(.logical_resource_ids | join(", ")))"}, locations: [{physicalLocation: {artifactLocation: {uri: $file}, region: {startLine: ([.line_numbers[]? | select(. > 0)][0] // 1)}}}]}]}]}' ${reportPath} > ${sarifPath}`;
+
+/**
+ * Converts a SARIF report into a JUnit XML report, with a failed test case per result, so that the
+ * results can be published to a CodeBuild report group.
+ */
+export const sarifToJunit = (
+  suiteName: string,
+  sarifPath: string,
+  junitPath: string
+) =>
+  `jq -r '[.runs[] | .results[]? | {rule: (.ruleId // "unknown"), message: (.message.text // ""), uri: (.locations[0].physicalLocation.artifactLocation.uri // ""), line: (.locations[0].physicalLocation.region.startLine // 0), level: (.level // "warning")}] as $results | "<?xml version=\\"1.0\\" encoding=\\"UTF-8\\"?>", "<testsuites><testsuite name=\\"${suiteName}\\" tests=\\"\\($results | length)\\" failures=\\"\\($results | length)\\">", ($results[] | "<testcase classname=\\"\\(.uri | @html)\\" name=\\"\\(.rule | @html) (\\(.uri | @html):\\(.line))\\"><failure type=\\"\\(.level)\\" message=\\"\\(.message | @html)\\"/></testcase>"), "</testsuite></testsuites>"' ${sarifPath} > ${junitPath}`;
+
+/**
+ * Archives a report (or a directory of reports when recursive) within the artifacts bucket under the commit
+ * which was scanned.
+ */
+export const archiveReport = (
+  bucketName: string,
+  scannerName: string,
+  reportPath: string,
+  recursive: boolean = false
+) =>
+  `aws s3 cp ${reportPath} s3://${bucketName}/${CODE_SCAN_REPORT_PREFIX}/${scannerName}/$RESOLVED_SOURCE_VERSION/${
+    recursive ? " --recursive" : ""
+  }`;
@@ -0,0 +1,502 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
+import { Stack } from "aws-cdk-lib";
+import {
+  BuildSpec,
+  IProject,
+  IReportGroup,
+  LinuxBuildImage,
+  Project,
+  ReportGroup,
+} from "aws-cdk-lib/aws-codebuild";
+import { EventField, RuleTargetInput } from "aws-cdk-lib/aws-events";
+import { CodeBuildProject } from "aws-cdk-lib/aws-events-targets";
+import { Effect, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { Bucket } from "aws-cdk-lib/aws-s3";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import {
+  archiveReport,
+  CODE_SCAN_REPORT_DIR,
+  CODE_SCAN_REPORT_PREFIX,
+  downloadSourceAndArtifacts,
+  mergeBuiltArtifacts,
+  npmAuditToSarif,
+  sarifToJunit,
+} from "./code-scanner-commands";
+import { SonarCodeScanner, SonarCodeScannerConfig } from "./sonar-code-scanner";
+
+/**
+ * Release of Trivy installed by default, pinned so that its checksum can be verified.
+ */
+const TRIVY_VERSION = "0.45.1";
+
+/**
+ * Options common to all scanners which run within CodeBuild.
+ */
+export interface CodeScannerOptions {
+  /**
+   * Additional arguments to pass to the scanner.
+   *
+   * @default undefined
+   */
+  readonly additionalArgs?: string[];
+
+  /**
+   * glob patterns of built artifacts to include in the scan, in addition to coverage reports and cloud assemblies.
+   *
+   * @default undefined
+   */
+  readonly includeGlobsForScan?: string[];
+}
+
+/**
+ * Semgrep scanner options.
+ */
+export interface SemgrepCodeScannerOptions extends CodeScannerOptions {
+  /**
+   * Semgrep rules to scan with i.e: p/default or a path to a rules file within the repository.
+   *
+   * @default auto
+   */
+  readonly config?: string;
+}
+
+/**
+ * Checkov scanner options.
+ */
+export interface CheckovCodeScannerOptions extends CodeScannerOptions {
+  /**
+   * Frameworks to scan i.e: cloudformation, dockerfile.
+   *
+   * @default - all frameworks
+   */
+  readonly frameworks?: string[];
+}
+
+/**
+ * Trivy scanner options.
+ */
+export interface TrivyCodeScannerOptions extends CodeScannerOptions {
+  /**
+   * Severities of the findings to report i.e: HIGH, CRITICAL.
+   *
+   * @default - all severities
+   */
+  readonly severities?: string[];
+
+  /**
+   * Release of Trivy to install. The downloaded release is verified against the checksums published with it.
+   *
+   * @default "0.45.1"
+   */
+  readonly version?: string;
+}
+
+/**
+ * Properties to bind a CodeScanner to a pipeline with.
+ */
+export interface CodeScannerBindProps {
+  /**
+   * ARN for the CodeBuild task responsible for executing the synth command.
+   */
+  readonly synthBuildArn: string;
+
+  /**
+   * S3 bucket ARN containing the built artifacts from the synth build, in which the reports are archived.
+   */
+  readonly artifactBucketArn: string;
+
+  /**
+   * Artifact bucket key ARN used to encrypt the artifacts.
+   */
+  readonly artifactBucketKeyArn?: string;
+}
+
+/**
+ * Result of binding a CodeScanner to a pipeline.
+ */
+export interface CodeScannerBinding {
+  /**
+   * Name of the scanner.
+   */
+  readonly name: string;
+
+  /**
+   * CodeBuild project which performs the scan.
+   */
+  readonly project?: IProject;
+
+  /**
+   * Report group the results of the scan are published to.
+   */
+  readonly reportGroup?: IReportGroup;
+}
+
+/**
+ * A scanner which is run against the source and built artifacts whenever the synth build succeeds.
+ */
+export abstract class CodeScanner {
+  /**
+   * Scans the source with Semgrep.
+   *
+   * @param options options to configure the scanner with.
+   */
+  public static semgrep(options?: SemgrepCodeScannerOptions): CodeScanner {
+    return new SarifCodeScanner("Semgrep", {
+      installCommands: ["pip3 install semgrep"],
+      commands: (sarifPath, args) => [
+        `semgrep scan --config ${
+          options?.config ?? "auto"
+        } --sarif --output ${sarifPath} ${args}`,
+      ],
+      ...options,
+    });
+  }
+
+  /**
+   * Scans infrastructure as code, including the synthesized cloud assemblies, with Checkov.
+   *
+   * @param options options to configure the scanner with.
+   */
+  public static checkov(options?: CheckovCodeScannerOptions): CodeScanner {
+    return new SarifCodeScanner("Checkov", {
+      installCommands: ["pip3 install checkov"],
+      commands: (sarifPath, args) => [
+        `checkov -d . ${(options?.frameworks || [])
+          .map((f) => `--framework ${f}`)
+          .join(
+            " "
+          )} --output sarif --output-file-path ${CODE_SCAN_REPORT_DIR} --soft-fail ${args}`,
+        `mv ${CODE_SCAN_REPORT_DIR}/results_sarif.sarif ${sarifPath}`,
+      ],
+      ...options,
+    });
+  }
+
+  /**
+   * Scans dependencies, infrastructure as code and secrets with Trivy.
+   *
+   * @param options options to configure the scanner with.
+   */
+  public static trivy(options?: TrivyCodeScannerOptions): CodeScanner {
+    const version = options?.version ?? TRIVY_VERSION;
+    const release = `https://github.com/aquasecurity/trivy/releases/download/v${version}`;
+    const archive = `trivy_${version}_Linux-64bit.tar.gz`;
+
+    return new SarifCodeScanner("Trivy", {
+      installCommands: [
+        `curl -sfL -o /tmp/${archive} ${release}/${archive}`,
+        `echo "$(curl -sfL ${release}/trivy_${version}_checksums.txt | grep " ${archive}$" | cut -d " " -f 1)  /tmp/${archive}" | sha256sum --check`,
+        `tar -xzf /tmp/${archive} -C /usr/local/bin trivy`,
+      ],
+      commands: (sarifPath, args) => [
+        `trivy fs --format sarif --output ${sarifPath} ${
+          options?.severities
+            ? `--severity ${options.severities.join(",")}`
+            : ""
+        } ${args} .`,
+      ],
+      ...options,
+    });
+  }
+
+  /**
+   * Scans npm dependencies with npm audit.
+   *
+   * @param options options to configure the scanner with.
+   */
+  public static npmAudit(options?: CodeScannerOptions): CodeScanner {
+    return new SarifCodeScanner("NpmAudit", {
+      commands: (sarifPath, args) => [
+        `npm audit --json ${args} > ${CODE_SCAN_REPORT_DIR}/npm-audit.json || true`,
+        npmAuditToSarif(`${CODE_SCAN_REPORT_DIR}/npm-audit.json`, sarifPath),
+      ],
+      ...options,
+    });
+  }
+
+  /**
+   * Scans python source with Bandit.
+   *
+   * @param options options to configure the scanner with.
+   */
+  public static bandit(options?: CodeScannerOptions): CodeScanner {
+    return new SarifCodeScanner("Bandit", {
+      installCommands: ['pip3 install "bandit[sarif]"'],
+      commands: (sarifPath, args) => [
+        `bandit -r . --exclude ./${CODE_SCAN_REPORT_DIR} --format sarif --output ${sarifPath} --exit-zero ${args}`,
+      ],
+      ...options,
+    });
+  }
+
+  /**
+   * Scans the source and built artifacts with Sonarqube, along with cfn_nag and OWASP dependency check.
+   *
+   * Note: a blocking quality gate is only supported via the sonarCodeScannerConfig of the PDKPipeline.
+   *
+   * @param config configuration of the Sonarqube project.
+   */
+  public static sonarqube(config: SonarCodeScannerConfig): CodeScanner {
+    return new SonarqubeCodeScanner(config);
+  }
+
+  /**
+   * Name of the scanner.
+   */
+  public abstract readonly name: string;
+
+  /**
+   * Creates the resources which perform the scan.
+   *
+   * @param scope scope in which to create the resources.
+   * @param props properties of the pipeline to bind to.
+   */
+  public abstract bind(
+    scope: Construct,
+    props: CodeScannerBindProps
+  ): CodeScannerBinding;
+}
+
+interface SarifCodeScannerProps extends CodeScannerOptions {
+  readonly installCommands?: string[];
+  readonly commands: (sarifPath: string, args: string) => string[];
+}
+
+class SarifCodeScanner extends CodeScanner {
+  constructor(
+    public readonly name: string,
+    private readonly props: SarifCodeScannerProps
+  ) {
+    super();
+  }
+
+  public bind(
+    scope: Construct,
+    props: CodeScannerBindProps
+  ): CodeScannerBinding {
+    const scanner = new SarifCodeScanProject(scope, `${this.name}CodeScanner`, {
+      name: this.name,
+      ...this.props,
+      ...props,
+    });
+
+    return {
+      name: this.name,
+      project: scanner.project,
+      reportGroup: scanner.reportGroup,
+    };
+  }
+}
+
+class SonarqubeCodeScanner extends CodeScanner {
+  public readonly name = "Sonarqube";
+
+  constructor(private readonly config: SonarCodeScannerConfig) {
+    super();
+  }
+
+  public bind(
+    scope: Construct,
+    props: CodeScannerBindProps
+  ): CodeScannerBinding {
+    if (this.config.qualityGateBlocking) {
+      throw new Error(
+        "A blocking Sonarqube quality gate is only supported via sonarCodeScannerConfig."
+      );
+    }
+
+    const scanner = new SonarCodeScanner(scope, `${this.name}CodeScanner`, {
+      ...props,
+      ...this.config,
+    });
+
+    return {
+      name: this.name,
+      project: scanner.validationProject,
+    };
+  }
+}
+
+interface SarifCodeScanProjectProps
+  extends SarifCodeScannerProps,
+    CodeScannerBindProps {
+  readonly name: string;
+}
+
+/**
+ * Runs a scanner which produces a SARIF report whenever the synth build succeeds, archiving the report in the
+ * artifacts bucket and publishing its results to a report group.
+ */
+class SarifCodeScanProject extends Construct {
+  public readonly project: Project;
+  public readonly reportGroup: ReportGroup;
+
+  constructor(scope: Construct, id: string, props: SarifCodeScanProjectProps) {
+    super(scope, id);
+
+    const stack = Stack.of(this);
+    const reportName = props.name.toLowerCase();
+    const sarifPath = `${CODE_SCAN_REPORT_DIR}/${reportName}.sarif`;
+    const junitPath = `${CODE_SCAN_REPORT_DIR}/${reportName}.xml`;
+    const bucketName = Bucket.fromBucketArn(
+      this,
+      "ArtifactBucket",
+      props.artifactBucketArn
+    ).bucketName;
+
+    const synthBuildProject = Project.fromProjectArn(
+      this,
+      "SynthBuildProject",
+      props.synthBuildArn
+    );
+
+    this.reportGroup = new ReportGroup(this, "ReportGroup");
+
+    this.project = new Project(this, "Project", {
+      environment: {
+        buildImage: LinuxBuildImage.STANDARD_5_0,
+      },
+      buildSpec: BuildSpec.fromObject({
+        version: "0.2",
+        env: {
+          shell: "bash",
+        },
+        phases: {
+          install: {
+            commands: props.installCommands || [],
+          },
+          build: {
+            commands: [
+              "export RESOLVED_SOURCE_VERSION=`aws codebuild batch-get-builds --ids $SYNTH_BUILD_ID | jq -r '.builds[0].resolvedSourceVersion'`",
+              ...downloadSourceAndArtifacts(),
+              mergeBuiltArtifacts(props.includeGlobsForScan),
+              `mkdir -p src/${CODE_SCAN_REPORT_DIR}`,
+              "cd src",
+              ...props.commands(
+                sarifPath,
+                (props.additionalArgs || []).join(" ")
+              ),
+              sarifToJunit(props.name, sarifPath, junitPath),
+              archiveReport(bucketName, reportName, sarifPath),
+            ],
+          },
+        },
+        reports: {
+          [this.reportGroup.reportGroupArn]: {
+            files: [junitPath],
+            "base-directory": "src",
+            "file-format": "JUNITXML",
+          },
+        },
+      }),
+    });
+
+    this.reportGroup.grantWrite(this.project);
+
+    this.project.addToRolePolicy(
+      new PolicyStatement({
+        actions: ["codebuild:BatchGetBuilds"],
+        effect: Effect.ALLOW,
+        resources: [synthBuildProject.projectArn],
+      })
+    );
+
+    this.project.addToRolePolicy(
+      new PolicyStatement({
+        actions: ["s3:GetObject*"],
+        effect: Effect.ALLOW,
+        resources: [props.artifactBucketArn, `${props.artifactBucketArn}/**`],
+      })
+    );
+
+    this.project.addToRolePolicy(
+      new PolicyStatement({
+        actions: ["s3:PutObject"],
+        effect: Effect.ALLOW,
+        resources: [
+          `${props.artifactBucketArn}/${CODE_SCAN_REPORT_PREFIX}/${reportName}/*`,
+        ],
+      })
+    );
+
+    props.artifactBucketKeyArn &&
+      this.project.addToRolePolicy(
+        new PolicyStatement({
+          actions: ["kms:Decrypt", "kms:DescribeKey", "kms:GenerateDataKey"],
+          effect: Effect.ALLOW,
+          resources: [props.artifactBucketKeyArn],
+        })
+      );
+
+    synthBuildProject.onBuildSucceeded("OnSynthSuccess", {
+      target: new CodeBuildProject(this.project, {
+        event: RuleTargetInput.fromObject({
+          environmentVariablesOverride: [
+            {
+              name: "SYNTH_BUILD_ID",
+              type: "PLAINTEXT",
+              value: EventField.fromPath("$.detail.build-id"),
+            },
+          ],
+        }),
+      }),
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      this.project.role!,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason: `${props.name} CodeBuild project requires access to read the ArtifactsBucket, archive its reports within it and create logs.`,
+          appliesTo: [
+            {
+              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:logs:${PDKNag.getStackRegionRegex(
+                stack
+              )}:${PDKNag.getStackAccountRegex(
+                stack
+              )}:log-group:/aws/codebuild/<.*${id}Project.*>:\\*$/g`,
+            },
+            {
+              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:codebuild:${PDKNag.getStackRegionRegex(
+                stack
+              )}:${PDKNag.getStackAccountRegex(
+                stack
+              )}:report-group/<.*${id}Project.*>-\\*$/g`,
+            },
+            {
+              regex: `/^Action::s3:GetObject\\*$/g`,
+            },
+            {
+              regex: "/^Resource::<ArtifactsBucket.*.Arn>/\\*\\*$/g",
+            },
+            {
+              regex: `/^Resource::<ArtifactsBucket.*.Arn>/${CODE_SCAN_REPORT_PREFIX}/${reportName}/\\*$/g`,
+            },
+          ],
+        },
+      ],
+      true
+    );
+  }
+}
@@ -14,25 +14,129 @@
  limitations under the License.
  ******************************************************************************************************************** */
 
-import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
-import { CfnOutput, Stack } from "aws-cdk-lib";
+import { PDKNag, PDKNagApp } from "@aws-prototyping-sdk/pdk-nag";
+import { CfnOutput, Duration, Fn, Stack } from "aws-cdk-lib";
 import {
   BuildEnvironmentVariableType,
   BuildSpec,
+  IReportGroup,
   LinuxBuildImage,
   Project,
+  ReportGroup,
 } from "aws-cdk-lib/aws-codebuild";
 import { EventField, RuleTargetInput } from "aws-cdk-lib/aws-events";
 import { CodeBuildProject } from "aws-cdk-lib/aws-events-targets";
 import { Effect, PolicyStatement } from "aws-cdk-lib/aws-iam";
-import { Secret } from "aws-cdk-lib/aws-secretsmanager";
+import { ISecret, Secret } from "aws-cdk-lib/aws-secretsmanager";
+import {
+  CodeBuildStep,
+  FileSet,
+  IFileSetProducer,
+} from "aws-cdk-lib/pipelines";
 import { NagSuppressions } from "cdk-nag";
 import { Construct } from "constructs";
+import {
+  archiveReport,
+  cfnNagToSarif,
+  CODE_SCAN_REPORT_DIR,
+  CODE_SCAN_REPORT_PREFIX,
+  downloadSourceAndArtifacts,
+  mergeBuiltArtifacts,
+  sarifToJunit,
+} from "./code-scanner-commands";
 import {
   createSonarqubeProject,
   generateSonarqubeReports,
+  pdkNagToSonarqubeIssues,
+  sonarqubeBranchParameters,
+  sonarqubeIssuesToSarif,
+  sonarqubeLanguageParameters,
+  sonarqubeQualityGateSummary,
   sonarqubeScanner,
 } from "./sonarqube-commands";
+import {
+  SonarqubeTokenRotation,
+  SonarqubeTokenValidation,
+} from "./sonarqube-token";
+
+const DEFAULT_BRANCH_NAME = "mainline";
+const SONARQUBE_REPORT_NAME = "sonarqube";
+const CFN_NAG_REPORT = `${CODE_SCAN_REPORT_DIR}/cfn-nag-report.json`;
+const PDK_NAG_ISSUES_REPORT = `${CODE_SCAN_REPORT_DIR}/pdk-nag-issues.json`;
+
+// Base names of the SARIF reports within the report directory, keyed by the name of their test suite
+const SARIF_REPORTS = {
+  CfnNag: "cfn-nag",
+  DependencyCheck: "dependency-check-report",
+  Sonarqube: "sonarqube",
+};
+
+/**
+ * Locations of the coverage and test reports of languages other than JavaScript/TypeScript, relative to the root
+ * of the repository.
+ *
+ * Reports at the default locations are copied from the built artifacts automatically, whereas reports at other
+ * locations need to be included via includeGlobsForScan.
+ */
+export interface SonarqubeLanguageReportsConfig {
+  /**
+   * Paths of Cobertura XML coverage reports produced by coverage.py i.e: pytest --cov --cov-report xml.
+   *
+   * @default - any coverage.xml file.
+   */
+  readonly pythonCoverageReportPaths?: string[];
+
+  /**
+   * Paths of JUnit XML test reports produced by pytest i.e: pytest --junitxml=pytest-report.xml.
+   *
+   * @default - any pytest*.xml file.
+   */
+  readonly pythonTestReportPaths?: string[];
+
+  /**
+   * Paths of JaCoCo XML coverage reports.
+   *
+   * @default - any target/site/jacoco/jacoco.xml file.
+   */
+  readonly javaCoverageReportPaths?: string[];
+
+  /**
+   * Directories containing JUnit XML test reports produced by surefire.
+   *
+   * @default - any target/surefire-reports directory.
+   */
+  readonly javaTestReportPaths?: string[];
+
+  /**
+   * Directories containing the compiled classes, which are required to analyse Java source.
+   *
+   * @default - any target/classes directory.
+   */
+  readonly javaBinaries?: string[];
+}
+
+/**
+ * Configuration of the rotation of the Sonarqube user token used to perform the scans.
+ */
+export interface SonarqubeTokenRotationConfig {
+  /**
+   * Login of the Sonarqube user the tokens are generated for.
+   */
+  readonly login: string;
+
+  /**
+   * Complete ARN of a secret containing a token of a Sonarqube user which is permitted to generate and
+   * revoke tokens of the login (i.e: a user with the Administer System permission).
+   */
+  readonly adminTokenSecretArn: string;
+
+  /**
+   * Number of days between rotations.
+   *
+   * @default 30
+   */
+  readonly rotationDays?: number;
+}
 
 export interface SonarCodeScannerConfig {
   /**
@@ -95,6 +199,92 @@ export interface SonarCodeScannerConfig {
    * Hook which allows custom commands to be executed before the process commences the archival process.
    */
   readonly preArchiveCommands?: string[];
+
+  /**
+   * Locations of Python and Java coverage and test reports.
+   *
+   * @default - reports at the default locations of each tool are located within the built artifacts.
+   */
+  readonly languageReports?: SonarqubeLanguageReportsConfig;
+
+  /**
+   * Rotates the Sonarqube user token on a schedule, provisioning the initial token upon deployment.
+   *
+   * @default undefined - the token must be generated in Sonarqube and stored in the secret manually.
+   */
+  readonly tokenRotation?: SonarqubeTokenRotationConfig;
+
+  /**
+   * Whether the endpoint and the token should be validated upon deployment, failing the deployment if the
+   * endpoint is not reachable or the token is not valid. Requires tokenRotation, so that the token is present
+   * in the secret at deployment time.
+   *
+   * @default false
+   */
+  readonly tokenValidationEnabled?: boolean;
+
+  /**
+   * Name of the branch the scanned code is built from. The main branch of the Sonarqube project is renamed
+   * to this branch upon creation and the reports are generated for it.
+   *
+   * @default mainline
+   */
+  readonly branchName?: string;
+
+  /**
+   * Whether pull requests should also be scanned, decorating each pull request with its analysis in Sonarqube.
+   * The scan waits for the quality gate, so a failing gate fails the pull request validation build and blocks
+   * the merge via its approval rule.
+   *
+   * Note: Requires pull request validation to be enabled and an edition of Sonarqube which supports pull request analysis.
+   *
+   * @default false
+   */
+  readonly pullRequestScanEnabled?: boolean;
+
+  /**
+   * Whether the scan should be performed as a step of the pipeline prior to deploying the first stage, waiting
+   * for the quality gate and failing the pipeline execution when it fails. Otherwise the scan is performed
+   * asynchronously once the synth build succeeds and does not block deployments.
+   *
+   * @default false
+   */
+  readonly qualityGateBlocking?: boolean;
+}
+
+/**
+ * SonarQualityGateStep properties.
+ */
+export interface SonarQualityGateStepProps extends SonarCodeScannerConfig {
+  /**
+   * Cloud assembly produced by the synth step, used as the working directory of the scan.
+   */
+  readonly input: FileSet;
+
+  /**
+   * Source of the pipeline.
+   */
+  readonly source: IFileSetProducer;
+
+  /**
+   * Repository after the synth build, containing the built artifacts i.e: coverage reports.
+   */
+  readonly built: FileSet;
+
+  /**
+   * Scanner which owns the Sonarqube user token and the report groups to publish to.
+   */
+  readonly scanner: SonarCodeScanner;
+
+  /**
+   * S3 bucket ARN in which the reports are archived.
+   */
+  readonly artifactBucketArn: string;
+
+  /**
+   * Artifact bucket key ARN used to encrypt the artifacts.
+   */
+  readonly artifactBucketKeyArn?: string;
 }
 
 /**
@@ -103,13 +293,17 @@ export interface SonarCodeScannerConfig {
 export interface SonarCodeScannerProps extends SonarCodeScannerConfig {
   /**
    * ARN for the CodeBuild task responsible for executing the synth command.
+   *
+   * Note: required unless qualityGateBlocking is set.
    */
-  readonly synthBuildArn: string;
+  readonly synthBuildArn?: string;
 
   /**
    * S3 bucket ARN containing the built artifacts from the synth build.
+   *
+   * Note: required unless qualityGateBlocking is set.
    */
-  readonly artifactBucketArn: string;
+  readonly artifactBucketArn?: string;
 
   /**
    * Artifact bucket key ARN used to encrypt the artifacts.
@@ -117,23 +311,8 @@ export interface SonarCodeScannerProps extends SonarCodeScannerConfig {
   readonly artifactBucketKeyArn?: string;
 }
 
-const unpackSourceAndArtifacts = (includeGlobsForScan?: string[]) => [
-  'export BUILT_ARTIFACT_URI=`aws codebuild batch-get-builds --ids $SYNTH_BUILD_ID | jq -r \'.builds[0].secondaryArtifacts[] | select(.artifactIdentifier == "Synth__") | .location\' | awk \'{sub("arn:aws:s3:::","s3://")}1\' $1`',
-  "export SYNTH_SOURCE_URI=`aws codebuild batch-get-builds --ids $SYNTH_BUILD_ID | jq -r '.builds[0].sourceVersion' | awk '{sub(\"arn:aws:s3:::\",\"s3://\")}1' $1`",
-  "aws s3 cp $SYNTH_SOURCE_URI source.zip",
-  "aws s3 cp $BUILT_ARTIFACT_URI built.zip",
-  "unzip source.zip -d src",
-  "unzip built.zip -d built",
-  "rm source.zip built.zip",
-  `rsync -a built/* src --include="*/" ${
-    includeGlobsForScan
-      ? includeGlobsForScan.map((g) => `--include ${g}`).join(" ")
-      : ""
-  } --include="**/coverage/**" --include="**/cdk.out/**" --exclude="**/node_modules/**/*" --exclude="**/.env/**" --exclude="*" --prune-empty-dirs`,
-];
-
 const owaspScan = () =>
-  `npx owasp-dependency-check --format HTML --out src/reports --exclude '**/.git/**/*' --scan src --enableExperimental --bin /tmp/dep-check --disableRetireJS`;
+  `npx owasp-dependency-check --format HTML --format SARIF --out src/reports --exclude '**/.git/**/*' --scan src --enableExperimental --bin /tmp/dep-check --disableRetireJS`;
 
 const cfnNagScan = (cdkOutDir?: string, cfnNagIgnorePath?: string) =>
   cdkOutDir
@@ -142,11 +321,298 @@ const cfnNagScan = (cdkOutDir?: string, cfnNagIgnorePath?: string) =>
       } built/${cdkOutDir}/**/*.template.json --output-format=json > src/reports/cfn-nag-report.json`
     : 'echo "skipping cfn_nag as no cdkOutDir was specified.';
 
+/**
+ * Commands which prepare the Sonarqube project and the reports to import, expecting the source to be in
+ * the src directory and the built artifacts in the built directory.
+ */
+const prepareScan = (props: SonarCodeScannerConfig, branchName: string) => [
+  ...createSonarqubeProject(props, branchName),
+  "mkdir -p src/reports",
+  owaspScan(),
+  cfnNagScan(props.cdkOutDir, props.cfnNagIgnorePath),
+  "cd src",
+  ...(props.cdkOutDir ? [pdkNagImport(props.cdkOutDir)] : []),
+];
+
+/**
+ * Imports the PDKNag results of the synth as external issues, or none if the app was not synthesized with PDKNag.
+ */
+const pdkNagImport = (cdkOutDir: string) =>
+  `if [ -f ${cdkOutDir}/${
+    PDKNagApp.NAG_RESULTS_FILE_NAME
+  } ]; then ${pdkNagToSonarqubeIssues(
+    cdkOutDir,
+    PDK_NAG_ISSUES_REPORT
+  )}; else echo '{"issues": []}' > ${PDK_NAG_ISSUES_REPORT}; fi`;
+
+/**
+ * Analysis parameters of a scan of the branch, including the coverage and test reports of each language and
+ * the PDKNag issues.
+ */
+const analysisParameters = (
+  props: SonarCodeScannerConfig,
+  branchName: string,
+  waitForQualityGate: boolean = false
+) => [
+  ...sonarqubeBranchParameters(branchName, waitForQualityGate),
+  ...sonarqubeLanguageParameters(props.languageReports),
+  ...(props.cdkOutDir
+    ? [`-Dsonar.externalIssuesReportPaths=${PDK_NAG_ISSUES_REPORT}`]
+    : []),
+];
+
+/**
+ * Commands which convert the findings of each tool into SARIF and JUnit reports and archive all reports in the
+ * artifacts bucket, expecting the working directory to be src.
+ */
+const archiveScan = (
+  props: SonarCodeScannerConfig,
+  branchName: string,
+  bucketName: string
+) => [
+  ...generateSonarqubeReports(branchName),
+  ...(props.preArchiveCommands || []),
+  `[ ! -f ${CFN_NAG_REPORT} ] || ${cfnNagToSarif(
+    CFN_NAG_REPORT,
+    `${CODE_SCAN_REPORT_DIR}/cfn-nag.sarif`
+  )}`,
+  sonarqubeIssuesToSarif(branchName, `${CODE_SCAN_REPORT_DIR}/sonarqube.sarif`),
+  ...Object.entries(SARIF_REPORTS).map(
+    ([suiteName, report]) =>
+      `[ ! -f ${CODE_SCAN_REPORT_DIR}/${report}.sarif ] || ${sarifToJunit(
+        suiteName,
+        `${CODE_SCAN_REPORT_DIR}/${report}.sarif`,
+        `${CODE_SCAN_REPORT_DIR}/${report}.xml`
+      )}`
+  ),
+  archiveReport(bucketName, SONARQUBE_REPORT_NAME, CODE_SCAN_REPORT_DIR, true),
+];
+
+const bucketNameFromArn = (bucketArn: string) =>
+  Fn.select(5, Fn.split(":", bucketArn));
+
+const archiveReportPolicyStatements = (
+  artifactBucketArn: string,
+  artifactBucketKeyArn?: string
+) => [
+  new PolicyStatement({
+    actions: ["s3:PutObject"],
+    effect: Effect.ALLOW,
+    resources: [
+      `${artifactBucketArn}/${CODE_SCAN_REPORT_PREFIX}/${SONARQUBE_REPORT_NAME}/*`,
+    ],
+  }),
+  ...(artifactBucketKeyArn
+    ? [
+        new PolicyStatement({
+          actions: ["kms:GenerateDataKey"],
+          effect: Effect.ALLOW,
+          resources: [artifactBucketKeyArn],
+        }),
+      ]
+    : []),
+];
+
+/**
+ * Publishes the JUnit reports of each tool to the report groups of the scanner.
+ */
+const reportGroupsBuildSpec = (scanner: SonarCodeScanner) => {
+  const junitReport = (report: string) => ({
+    files: [`${CODE_SCAN_REPORT_DIR}/${report}.xml`],
+    "base-directory": "src",
+    "file-format": "JUNITXML",
+  });
+
+  return {
+    [scanner.cfnNagReportGroup.reportGroupArn]: junitReport(
+      SARIF_REPORTS.CfnNag
+    ),
+    [scanner.dependencyCheckReportGroup.reportGroupArn]: junitReport(
+      SARIF_REPORTS.DependencyCheck
+    ),
+    [scanner.sonarqubeReportGroup.reportGroupArn]: junitReport(
+      SARIF_REPORTS.Sonarqube
+    ),
+  };
+};
+
+/**
+ * A step which scans the source and built artifacts of the pipeline and fails when the Sonarqube quality
+ * gate of the branch fails, printing the conditions which were not met.
+ */
+export class SonarQualityGateStep extends CodeBuildStep {
+  constructor(id: string, props: SonarQualityGateStepProps) {
+    const branchName = props.branchName ?? DEFAULT_BRANCH_NAME;
+    const bucketName = bucketNameFromArn(props.artifactBucketArn);
+
+    super(id, {
+      input: props.input,
+      additionalInputs: {
+        src: props.source,
+        built: props.built,
+      },
+      env: {
+        SONARQUBE_ENDPOINT: props.sonarqubeEndpoint,
+        PROJECT_NAME: props.sonarqubeProjectName,
+      },
+      partialBuildSpec: BuildSpec.fromObject({
+        env: {
+          shell: "bash",
+          "secrets-manager": {
+            SONARQUBE_TOKEN: props.scanner.sonarqubeToken.secretArn,
+          },
+        },
+        reports: reportGroupsBuildSpec(props.scanner),
+      }),
+      installCommands: ["npm install -g aws-cdk", "gem install cfn-nag"],
+      commands: [
+        "export RESOLVED_SOURCE_VERSION=$CODEBUILD_RESOLVED_SOURCE_VERSION",
+        mergeBuiltArtifacts(props.includeGlobsForScan),
+        ...prepareScan(props, branchName),
+        `${sonarqubeScanner(
+          analysisParameters(props, branchName, true),
+          props.excludeGlobsForScan
+        )} || export QUALITY_GATE_FAILED=true`,
+        ...archiveScan(props, branchName, bucketName),
+        `if [[ "$QUALITY_GATE_FAILED" == "true" ]]; then ${sonarqubeQualityGateSummary(
+          branchName
+        )}; exit 1; fi`,
+      ],
+      rolePolicyStatements: [
+        new PolicyStatement({
+          actions: ["secretsmanager:GetSecretValue"],
+          effect: Effect.ALLOW,
+          resources: [props.scanner.sonarqubeToken.secretArn],
+        }),
+        new PolicyStatement({
+          actions: [
+            "codebuild:CreateReport",
+            "codebuild:UpdateReport",
+            "codebuild:BatchPutTestCases",
+          ],
+          effect: Effect.ALLOW,
+          resources: props.scanner.reportGroups.map(
+            (reportGroup) => reportGroup.reportGroupArn
+          ),
+        }),
+        ...archiveReportPolicyStatements(
+          props.artifactBucketArn,
+          props.artifactBucketKeyArn
+        ),
+      ],
+    });
+  }
+}
+
 export class SonarCodeScanner extends Construct {
+  /**
+   * CodeBuild project which performs the scan once the synth build succeeds.
+   *
+   * Note: undefined when qualityGateBlocking is set, in which case the scan is performed by a SonarQualityGateStep.
+   */
+  public readonly validationProject?: Project;
+
+  /**
+   * Secret containing the Sonarqube user token used to perform the scans.
+   */
+  public readonly sonarqubeToken: ISecret;
+
+  /**
+   * Report group the cfn_nag findings are published to.
+   */
+  public readonly cfnNagReportGroup: IReportGroup;
+
+  /**
+   * Report group the OWASP dependency check findings are published to.
+   */
+  public readonly dependencyCheckReportGroup: IReportGroup;
+
+  /**
+   * Report group the unresolved Sonarqube issues are published to.
+   */
+  public readonly sonarqubeReportGroup: IReportGroup;
+
   constructor(scope: Construct, id: string, props: SonarCodeScannerProps) {
     super(scope, id);
 
+    if (props.tokenValidationEnabled && !props.tokenRotation) {
+      throw new Error(
+        "tokenValidationEnabled requires tokenRotation, as a manually generated token can only be stored in the secret once it has been deployed."
+      );
+    }
+
     const sonarQubeToken = new Secret(this, "SonarQubeToken");
+    this.sonarqubeToken = sonarQubeToken;
+    this.cfnNagReportGroup = new ReportGroup(this, "CfnNagReportGroup");
+    this.dependencyCheckReportGroup = new ReportGroup(
+      this,
+      "DependencyCheckReportGroup"
+    );
+    this.sonarqubeReportGroup = new ReportGroup(this, "SonarqubeReportGroup");
+
+    this.validationProject = props.qualityGateBlocking
+      ? undefined
+      : this.createValidationProject(props);
+
+    new CfnOutput(this, "SonarqubeSecretArn", {
+      exportName: "SonarqubeSecretArn",
+      value: sonarQubeToken.secretArn,
+    });
+
+    const tokenRotation =
+      props.tokenRotation &&
+      new SonarqubeTokenRotation(this, "SonarqubeTokenRotation", {
+        secret: sonarQubeToken,
+        sonarqubeEndpoint: props.sonarqubeEndpoint,
+        login: props.tokenRotation.login,
+        adminTokenSecretArn: props.tokenRotation.adminTokenSecretArn,
+        automaticallyAfter:
+          props.tokenRotation.rotationDays !== undefined
+            ? Duration.days(props.tokenRotation.rotationDays)
+            : undefined,
+      });
+
+    if (props.tokenValidationEnabled) {
+      const tokenValidation = new SonarqubeTokenValidation(
+        this,
+        "SonarqubeTokenValidation",
+        {
+          secret: sonarQubeToken,
+          sonarqubeEndpoint: props.sonarqubeEndpoint,
+        }
+      );
+      tokenRotation && tokenValidation.node.addDependency(tokenRotation);
+    }
+
+    !tokenRotation &&
+      NagSuppressions.addResourceSuppressions(sonarQubeToken, [
+        {
+          id: "AwsSolutions-SMG4",
+          reason:
+            "Key rotation is not possible as a user token needs to be generated from Sonarqube",
+        },
+      ]);
+  }
+
+  /**
+   * Report groups the findings of the scan are published to.
+   */
+  public get reportGroups(): IReportGroup[] {
+    return [
+      this.cfnNagReportGroup,
+      this.dependencyCheckReportGroup,
+      this.sonarqubeReportGroup,
+    ];
+  }
+
+  private createValidationProject(props: SonarCodeScannerProps): Project {
+    if (!props.synthBuildArn || !props.artifactBucketArn) {
+      throw new Error(
+        "synthBuildArn and artifactBucketArn are required unless qualityGateBlocking is set."
+      );
+    }
+
+    const branchName = props.branchName ?? DEFAULT_BRANCH_NAME;
 
     const synthBuildProject = Project.fromProjectArn(
       this,
@@ -161,7 +627,7 @@ export class SonarCodeScanner extends Construct {
       environmentVariables: {
         SONARQUBE_TOKEN: {
           type: BuildEnvironmentVariableType.SECRETS_MANAGER,
-          value: sonarQubeToken.secretArn,
+          value: this.sonarqubeToken.secretArn,
         },
         SONARQUBE_ENDPOINT: {
           type: BuildEnvironmentVariableType.PLAINTEXT,
@@ -184,21 +650,33 @@ export class SonarCodeScanner extends Construct {
           build: {
             commands: [
               "export RESOLVED_SOURCE_VERSION=`aws codebuild batch-get-builds --ids $SYNTH_BUILD_ID | jq -r '.builds[0].resolvedSourceVersion'`",
-              ...unpackSourceAndArtifacts(props.includeGlobsForScan),
-              ...createSonarqubeProject(props),
-              "mkdir -p src/reports",
-              owaspScan(),
-              cfnNagScan(props.cdkOutDir, props.cfnNagIgnorePath),
-              "cd src",
-              sonarqubeScanner(props.excludeGlobsForScan),
-              ...generateSonarqubeReports(),
-              ...(props.preArchiveCommands || []),
+              ...downloadSourceAndArtifacts(),
+              mergeBuiltArtifacts(props.includeGlobsForScan),
+              ...prepareScan(props, branchName),
+              sonarqubeScanner(
+                analysisParameters(props, branchName),
+                props.excludeGlobsForScan
+              ),
+              ...archiveScan(
+                props,
+                branchName,
+                bucketNameFromArn(props.artifactBucketArn)
+              ),
             ],
           },
         },
+        reports: reportGroupsBuildSpec(this),
       }),
     });
 
+    this.reportGroups.forEach((reportGroup) =>
+      reportGroup.grantWrite(validationProject)
+    );
+    archiveReportPolicyStatements(
+      props.artifactBucketArn,
+      props.artifactBucketKeyArn
+    ).forEach((statement) => validationProject.addToRolePolicy(statement));
+
     validationProject.addToRolePolicy(
       new PolicyStatement({
         actions: ["codebuild:BatchGetBuilds"],
@@ -238,19 +716,6 @@ export class SonarCodeScanner extends Construct {
       }),
     });
 
-    new CfnOutput(this, "SonarqubeSecretArn", {
-      exportName: "SonarqubeSecretArn",
-      value: sonarQubeToken.secretArn,
-    });
-
-    NagSuppressions.addResourceSuppressions(sonarQubeToken, [
-      {
-        id: "AwsSolutions-SMG4",
-        reason:
-          "Key rotation is not possible as a user token needs to be generated from Sonarqube",
-      },
-    ]);
-
     const stack = Stack.of(this);
     NagSuppressions.addResourceSuppressions(
       validationProject.role!,
@@ -267,7 +732,7 @@ export class SonarCodeScanner extends Construct {
                 stack
               )}:${PDKNag.getStackAccountRegex(
                 stack
-              )}:log-group:/aws/codebuild/<.*SonarCodeScannerValidationProject.*>:\\*$/g`,
+              )}:log-group:/aws/codebuild/<.*CodeScannerValidationProject.*>:\\*$/g`,
             },
             {
               regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
@@ -276,7 +741,7 @@ export class SonarCodeScanner extends Construct {
                 stack
               )}:${PDKNag.getStackAccountRegex(
                 stack
-              )}:report-group/<.*SonarCodeScannerValidationProject.*>-\\*$/g`,
+              )}:report-group/<.*CodeScannerValidationProject.*>-\\*$/g`,
             },
             {
               regex: `/^Action::s3:GetObject\\*$/g`,
@@ -284,10 +749,15 @@ export class SonarCodeScanner extends Construct {
             {
               regex: "/^Resource::<ArtifactsBucket.*.Arn>/\\*\\*$/g",
             },
+            {
+              regex: `/^Resource::<ArtifactsBucket.*.Arn>/${CODE_SCAN_REPORT_PREFIX}/${SONARQUBE_REPORT_NAME}/\\*$/g`,
+            },
           ],
         },
       ],
       true
     );
+
+    return validationProject;
   }
 }
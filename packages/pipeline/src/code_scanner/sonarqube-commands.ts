@@ -14,7 +14,11 @@
  limitations under the License.
  ******************************************************************************************************************** */
 
-import { SonarCodeScannerProps } from "./sonar-code-scanner";
+import { PDKNagApp } from "@aws-prototyping-sdk/pdk-nag";
+import {
+  SonarCodeScannerConfig,
+  SonarqubeLanguageReportsConfig,
+} from "./sonar-code-scanner";
 
 const cube = (path: string, action: string = "GET", args?: string) =>
   `curl -X ${action} -u $SONARQUBE_TOKEN: "$SONARQUBE_ENDPOINT${path}" ${
@@ -73,16 +77,21 @@ const setupSonarqubePermissions = (authorizedGroup?: string) =>
           )}`
       );
 
-const setupSonarqubeProject = ({
-  sonarqubeTags,
-  sonarqubeAuthorizedGroup,
-  sonarqubeDefaultProfileOrGateName,
-  sonarqubeSpecificProfileOrGateName,
-}: SonarCodeScannerProps) => {
+const setupSonarqubeProject = (
+  {
+    sonarqubeTags,
+    sonarqubeAuthorizedGroup,
+    sonarqubeDefaultProfileOrGateName,
+    sonarqubeSpecificProfileOrGateName,
+  }: SonarCodeScannerConfig,
+  branchName: string
+) => {
   return [
     ...setupSonarqubePermissions(sonarqubeAuthorizedGroup),
     `${cube(
-      "/api/project_branches/rename?project=$PROJECT_NAME&name=mainline",
+      `/api/project_branches/rename?project=$PROJECT_NAME&name=${encodeURIComponent(
+        branchName
+      )}`,
       "POST"
     )}`,
     `${cube(
@@ -103,14 +112,18 @@ const setupSonarqubeProject = ({
   ].join(";");
 };
 
-export const generateSonarqubeReports = () => [
+export const generateSonarqubeReports = (branchName: string) => [
   cube(
-    "/api/bitegarden/report/pdf_issues_breakdown?resource=$PROJECT_NAME&branch=mainline",
+    `/api/bitegarden/report/pdf_issues_breakdown?resource=$PROJECT_NAME&branch=${encodeURIComponent(
+      branchName
+    )}`,
     "GET",
     "--output reports/prototype-issues-report.pdf"
   ),
   cube(
-    "/api/bitegarden/report/pdf?resource=$PROJECT_NAME&branch=mainline",
+    `/api/bitegarden/report/pdf?resource=$PROJECT_NAME&branch=${encodeURIComponent(
+      branchName
+    )}`,
     "GET",
     "--output reports/prototype-executive-report.pdf"
   ),
@@ -121,23 +134,99 @@ export const generateSonarqubeReports = () => [
   ),
 ];
 
-export const createSonarqubeProject = (props: SonarCodeScannerProps) => [
+export const createSonarqubeProject = (
+  props: SonarCodeScannerConfig,
+  branchName: string
+) => [
   `CREATE_PROJECT_OUTPUT=\`${cube(
     "/api/projects/create?name=$PROJECT_NAME&project=$PROJECT_NAME&visibility=private",
     "POST"
   )}\``,
   `if [[ "$(echo $CREATE_PROJECT_OUTPUT | jq .errors)" == "null" ]]; then ${setupSonarqubeProject(
-    props
+    props,
+    branchName
   )}; fi;`,
 ];
 
-export const sonarqubeScanner = (excludeGlobsForScan?: string[]) =>
+/**
+ * Analysis parameters of a scan of a long-lived branch, optionally waiting for the quality gate so that
+ * a failing gate fails the scan.
+ */
+export const sonarqubeBranchParameters = (
+  branchName: string,
+  waitForQualityGate: boolean = false
+) => [
+  `-Dsonar.branch.name=${branchName}`,
+  ...(waitForQualityGate ? ["-Dsonar.qualitygate.wait=true"] : []),
+];
+
+/**
+ * Prints the conditions of the quality gate of the branch which are not met.
+ */
+export const sonarqubeQualityGateSummary = (branchName: string) =>
+  `${cube(
+    `/api/qualitygates/project_status?projectKey=$PROJECT_NAME&branch=${encodeURIComponent(
+      branchName
+    )}`
+  )} | jq -r '.projectStatus.conditions[] | select(.status == "ERROR") | "Quality gate condition failed: \\(.metricKey) = \\(.actualValue) (fails when \\(.comparator) \\(.errorThreshold))"'`;
+
+/**
+ * Analysis parameters of a scan of a pull request, which decorate the pull request with the results and
+ * wait for the quality gate so that a failing gate fails the scan.
+ *
+ * Expects PULL_REQUEST_ID and SOURCE_BRANCH (i.e: refs/heads/feature) to be set.
+ */
+export const sonarqubePullRequestParameters = (baseBranchName: string) => [
+  "-Dsonar.pullrequest.key=$PULL_REQUEST_ID",
+  "-Dsonar.pullrequest.branch=${SOURCE_BRANCH#refs/heads/}",
+  `-Dsonar.pullrequest.base=${baseBranchName}`,
+  "-Dsonar.qualitygate.wait=true",
+];
+
+const reportPaths = (paths: string[] | undefined, findExpression: string) =>
+  paths
+    ? `"${paths.join(",")}"`
+    : `"$(find . ${findExpression} -not -path "*/node_modules/*" | paste -sd, -)"`;
+
+/**
+ * Analysis parameters locating the Python and Java coverage and test reports. Reports which are not configured
+ * are searched for at the default locations of each tool at the time of the scan.
+ */
+export const sonarqubeLanguageParameters = (
+  languageReports?: SonarqubeLanguageReportsConfig
+) => [
+  `-Dsonar.python.coverage.reportPaths=${reportPaths(
+    languageReports?.pythonCoverageReportPaths,
+    '-type f -name "coverage.xml"'
+  )}`,
+  `-Dsonar.python.xunit.reportPath=${reportPaths(
+    languageReports?.pythonTestReportPaths,
+    '-type f -name "pytest*.xml"'
+  )}`,
+  `-Dsonar.coverage.jacoco.xmlReportPaths=${reportPaths(
+    languageReports?.javaCoverageReportPaths,
+    '-type f -path "*/target/site/jacoco/jacoco.xml"'
+  )}`,
+  `-Dsonar.junit.reportPaths=${reportPaths(
+    languageReports?.javaTestReportPaths,
+    '-type d -path "*/target/surefire-reports"'
+  )}`,
+  `-Dsonar.java.binaries=${reportPaths(
+    languageReports?.javaBinaries,
+    '-type d -path "*/target/classes"'
+  )}`,
+];
+
+export const sonarqubeScanner = (
+  analysisParameters: string[],
+  excludeGlobsForScan?: string[]
+) =>
   [
     "npx sonarqube-scanner -Dsonar.login=$SONARQUBE_TOKEN",
     "-Dsonar.projectKey=$PROJECT_NAME",
     "-Dsonar.projectName=$PROJECT_NAME",
     "-Dsonar.projectVersion=`echo $RESOLVED_SOURCE_VERSION | cut -c1-7`",
-    "-Dsonar.branch.name=mainline",
+    ...analysisParameters,
     "-Dsonar.host.url=$SONARQUBE_ENDPOINT",
     "-Dsonar.cfn.nag.reportFiles=reports/cfn-nag-report.json",
     "-Dsonar.dependencyCheck.htmlReportPath=reports/dependency-check-report.html",
@@ -148,3 +237,23 @@ export const sonarqubeScanner = (excludeGlobsForScan?: string[]) =>
     }"`,
     "-Dsonar.sources=.",
   ].join(" ");
+
+/**
+ * Converts the PDKNag results written to the cloud assembly on synth into Sonarqube generic external issues,
+ * reported against the template containing each offending resource.
+ */
+export const pdkNagToSonarqubeIssues = (
+  cdkOutDir: string,
+  issuesPath: string
+) =>
+  `jq '{issues: [.[] | .resource as $resource | (.templateFile // "${PDKNagApp.NAG_RESULTS_FILE_NAME}") as $file | .messages[] | {engineId: "pdk-nag", ruleId: .ruleId, severity: (if .level == "Error" then "CRITICAL" else "MAJOR" end), type: "VULNERABILITY", primaryLocation: {message: "\\($resource): \\(.messageDescription)", filePath: "${cdkOutDir}/\\($file)", textRange: {startLine: 1}}}]}' ${cdkOutDir}/${PDKNagApp.NAG_RESULTS_FILE_NAME} > ${issuesPath}`;
+
+/**
+ * Exports the unresolved issues of the branch (up to the first 500) as a SARIF report.
+ */
+export const sonarqubeIssuesToSarif = (branchName: string, sarifPath: string) =>
+  `${cube(
+    `/api/issues/search?componentKeys=$PROJECT_NAME&branch=${encodeURIComponent(
+      branchName
+    )}&resolved=false&ps=500`
+  )} | jq '{version: "2.1.0", runs: [{tool: {driver: {name: "Sonarqube"}}, results: [.issues[] | {ruleId: .rule, level: (if .severity == "BLOCKER" or .severity == "CRITICAL" then "error" elif .severity == "MAJOR" then "warning" else "note" end), message: {text: .message}, locations: [{physicalLocation: {artifactLocation: {uri: (.component | sub("^[^:]*:"; ""))}, region: {startLine: (.line // 1)}}}]}]}]}' > ${sarifPath}`;
@@ -0,0 +1,212 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import * as path from "path";
+import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
+import { CustomResource, Duration, Stack } from "aws-cdk-lib";
+import { Code, Function } from "aws-cdk-lib/aws-lambda";
+import { ISecret, Secret } from "aws-cdk-lib/aws-secretsmanager";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { NagPackSuppression, NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { HANDLER_RUNTIME } from "../handler-runtime";
+
+const HANDLER_PATH = path.join(__dirname, "sonarqube_token_handler");
+
+const basicExecutionRoleSuppression = (
+  scope: Construct,
+  reason: string
+): NagPackSuppression => ({
+  id: "AwsSolutions-IAM4",
+  reason,
+  appliesTo: [
+    {
+      regex: `/^Policy::arn:${PDKNag.getStackPartitionRegex(
+        Stack.of(scope)
+      )}:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole$/g`,
+    },
+  ],
+});
+
+/**
+ * SonarqubeTokenRotation properties.
+ */
+export interface SonarqubeTokenRotationProps {
+  /**
+   * Secret containing the Sonarqube user token to rotate.
+   */
+  readonly secret: Secret;
+
+  /**
+   * endpoint of the sonarqube instance i.e: https://<your-sonarqube-endpoint>.
+   */
+  readonly sonarqubeEndpoint: string;
+
+  /**
+   * Login of the Sonarqube user the tokens are generated for.
+   */
+  readonly login: string;
+
+  /**
+   * Complete ARN of a secret containing a token of a Sonarqube user which is permitted to generate and
+   * revoke tokens of the login (i.e: a user with the Administer System permission).
+   */
+  readonly adminTokenSecretArn: string;
+
+  /**
+   * Interval between rotations.
+   *
+   * @default Duration.days(30)
+   */
+  readonly automaticallyAfter?: Duration;
+}
+
+/**
+ * Rotates a Sonarqube user token on a schedule, generating a new token via an admin token and revoking
+ * the previous one. The secret is also rotated upon creation, provisioning the initial token.
+ */
+export class SonarqubeTokenRotation extends Construct {
+  /**
+   * Lambda which performs the rotation.
+   */
+  public readonly handler: Function;
+
+  constructor(
+    scope: Construct,
+    id: string,
+    props: SonarqubeTokenRotationProps
+  ) {
+    super(scope, id);
+
+    this.handler = new Function(this, "Handler", {
+      code: Code.fromAsset(HANDLER_PATH),
+      handler: "index.onRotate",
+      runtime: HANDLER_RUNTIME,
+      timeout: Duration.seconds(30),
+      environment: {
+        SONARQUBE_ENDPOINT: props.sonarqubeEndpoint,
+        SONARQUBE_LOGIN: props.login,
+        ADMIN_TOKEN_SECRET_ARN: props.adminTokenSecretArn,
+      },
+    });
+
+    Secret.fromSecretCompleteArn(
+      this,
+      "AdminToken",
+      props.adminTokenSecretArn
+    ).grantRead(this.handler);
+
+    props.secret.addRotationSchedule("RotationSchedule", {
+      rotationLambda: this.handler,
+      automaticallyAfter: props.automaticallyAfter,
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      this.handler,
+      [
+        basicExecutionRoleSuppression(
+          this,
+          "The Sonarqube token rotation handler only requires the permissions to write its logs in addition to those granted for the rotation."
+        ),
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "secretsmanager:GetRandomPassword is granted to all rotation handlers and does not support resource-level permissions.",
+          appliesTo: ["Resource::*"],
+        },
+      ],
+      true
+    );
+  }
+}
+
+/**
+ * SonarqubeTokenValidation properties.
+ */
+export interface SonarqubeTokenValidationProps {
+  /**
+   * Secret containing the Sonarqube user token to validate.
+   */
+  readonly secret: ISecret;
+
+  /**
+   * endpoint of the sonarqube instance i.e: https://<your-sonarqube-endpoint>.
+   */
+  readonly sonarqubeEndpoint: string;
+}
+
+/**
+ * Custom resource which fails the deployment with a meaningful message when the Sonarqube endpoint is not
+ * reachable or the token stored in the secret is not valid.
+ */
+export class SonarqubeTokenValidation extends Construct {
+  constructor(
+    scope: Construct,
+    id: string,
+    props: SonarqubeTokenValidationProps
+  ) {
+    super(scope, id);
+
+    const onEventHandler = new Function(this, "Handler", {
+      code: Code.fromAsset(HANDLER_PATH),
+      handler: "index.onValidate",
+      runtime: HANDLER_RUNTIME,
+      timeout: Duration.minutes(2),
+    });
+    props.secret.grantRead(onEventHandler);
+
+    const provider = new Provider(this, "Provider", { onEventHandler });
+
+    new CustomResource(this, "Resource", {
+      serviceToken: provider.serviceToken,
+      properties: {
+        SONARQUBE_ENDPOINT: props.sonarqubeEndpoint,
+        TOKEN_SECRET_ARN: props.secret.secretArn,
+      },
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      onEventHandler,
+      [
+        basicExecutionRoleSuppression(
+          this,
+          "The Sonarqube token validation handler only requires the permissions to write its logs in addition to reading the token."
+        ),
+      ],
+      true
+    );
+    NagSuppressions.addResourceSuppressions(
+      provider,
+      [
+        basicExecutionRoleSuppression(
+          this,
+          "The custom resource provider only requires the permissions to write its logs in addition to invoking the handler."
+        ),
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The custom resource provider requires permission to invoke any version of the handler.",
+        },
+        {
+          id: "AwsSolutions-L1",
+          reason:
+            "Latest runtime cannot be configured. CDK will need to upgrade the Provider construct accordingly.",
+        },
+      ],
+      true
+    );
+  }
+}
@@ -0,0 +1,277 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { request } from "https";
+import {
+  DescribeSecretCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+  UpdateSecretVersionStageCommand,
+} from "@aws-sdk/client-secrets-manager";
+import {
+  CloudFormationCustomResourceEvent,
+  SecretsManagerRotationEvent,
+} from "aws-lambda";
+
+const TOKEN_NAME_PREFIX = "pdk-pipeline";
+const VALIDATION_ATTEMPTS = 6;
+const VALIDATION_INTERVAL_MS = 10000;
+// Keeps every validation attempt within the timeout of the validation handler
+const REQUEST_TIMEOUT_MS = 5000;
+
+const client = new SecretsManagerClient({});
+
+/**
+ * Properties of the token validation custom resource.
+ */
+interface TokenValidationProperties {
+  readonly SONARQUBE_ENDPOINT: string;
+  readonly TOKEN_SECRET_ARN: string;
+}
+
+/**
+ * Handler which rotates a Sonarqube user token stored in Secrets Manager, generating a new token via the
+ * admin token and revoking the previous one once the new token has been promoted.
+ */
+exports.onRotate = async (event: SecretsManagerRotationEvent) => {
+  const { SecretId, ClientRequestToken, Step } = event;
+  const { SONARQUBE_ENDPOINT, SONARQUBE_LOGIN, ADMIN_TOKEN_SECRET_ARN } =
+    process.env;
+
+  const metadata = await client.send(new DescribeSecretCommand({ SecretId }));
+  const stages = metadata.VersionIdsToStages?.[ClientRequestToken];
+  if (!stages) {
+    throw new Error(
+      `Version ${ClientRequestToken} has no stage for rotation of secret ${SecretId}.`
+    );
+  }
+  if (stages.includes("AWSCURRENT")) {
+    console.info(`Version ${ClientRequestToken} is already AWSCURRENT.`);
+    return;
+  }
+
+  switch (Step) {
+    case "createSecret":
+      await createSecret(
+        SecretId,
+        ClientRequestToken,
+        SONARQUBE_ENDPOINT!,
+        SONARQUBE_LOGIN!,
+        await getSecretString(ADMIN_TOKEN_SECRET_ARN!)
+      );
+      break;
+    case "setSecret":
+      // The token is active as soon as it has been generated
+      break;
+    case "testSecret":
+      if (
+        !(await isTokenValid(
+          SONARQUBE_ENDPOINT!,
+          await getSecretString(SecretId, ClientRequestToken, "AWSPENDING")
+        ))
+      ) {
+        throw new Error(
+          `Pending Sonarqube token of secret ${SecretId} is not valid.`
+        );
+      }
+      break;
+    case "finishSecret":
+      await finishSecret(
+        SecretId,
+        ClientRequestToken,
+        metadata.VersionIdsToStages!,
+        SONARQUBE_ENDPOINT!,
+        SONARQUBE_LOGIN!,
+        await getSecretString(ADMIN_TOKEN_SECRET_ARN!)
+      );
+      break;
+    default:
+      throw new Error(`Invalid Step: ${Step}`);
+  }
+};
+
+/**
+ * Handler which validates that the Sonarqube endpoint is reachable and that the token stored in the
+ * secret is valid, so that a deployment fails fast rather than the first scan.
+ */
+exports.onValidate = async (
+  event: CloudFormationCustomResourceEvent<TokenValidationProperties>
+) => {
+  const { SONARQUBE_ENDPOINT, TOKEN_SECRET_ARN } = event.ResourceProperties;
+
+  if (event.RequestType !== "Delete") {
+    const version = await sonarqubeRequest(
+      SONARQUBE_ENDPOINT,
+      "GET",
+      "/api/server/version"
+    ).catch((e) => {
+      throw new Error(
+        `Unable to reach Sonarqube at ${SONARQUBE_ENDPOINT}: ${e.message}`
+      );
+    });
+    console.info(`Sonarqube ${version} is reachable at ${SONARQUBE_ENDPOINT}.`);
+
+    // The token may still be being generated by the initial rotation of the secret
+    for (let attempt = 1; ; attempt++) {
+      const token = await getSecretString(TOKEN_SECRET_ARN);
+      if (await isTokenValid(SONARQUBE_ENDPOINT, token)) {
+        break;
+      }
+      if (attempt === VALIDATION_ATTEMPTS) {
+        throw new Error(
+          `The Sonarqube token stored in ${TOKEN_SECRET_ARN} is not valid for ${SONARQUBE_ENDPOINT}. Generate a user token in Sonarqube and store it in the secret, or configure tokenRotation.`
+        );
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, VALIDATION_INTERVAL_MS)
+      );
+    }
+  }
+
+  return {
+    PhysicalResourceId: `${SONARQUBE_ENDPOINT}|${TOKEN_SECRET_ARN}`,
+  };
+};
+
+const tokenName = (versionId: string) => `${TOKEN_NAME_PREFIX}-${versionId}`;
+
+const createSecret = async (
+  secretId: string,
+  versionId: string,
+  endpoint: string,
+  login: string,
+  adminToken: string
+) => {
+  try {
+    await getSecretString(secretId, versionId, "AWSPENDING");
+    console.info(`Version ${versionId} already has a pending token.`);
+  } catch (e) {
+    const response = await sonarqubeRequest(
+      endpoint,
+      "POST",
+      `/api/user_tokens/generate?login=${encodeURIComponent(
+        login
+      )}&name=${encodeURIComponent(tokenName(versionId))}`,
+      adminToken
+    );
+
+    await client.send(
+      new PutSecretValueCommand({
+        SecretId: secretId,
+        ClientRequestToken: versionId,
+        SecretString: JSON.parse(response).token,
+        VersionStages: ["AWSPENDING"],
+      })
+    );
+  }
+};
+
+const finishSecret = async (
+  secretId: string,
+  versionId: string,
+  versionIdsToStages: Record<string, string[]>,
+  endpoint: string,
+  login: string,
+  adminToken: string
+) => {
+  const currentVersionId = Object.keys(versionIdsToStages).find((id) =>
+    versionIdsToStages[id].includes("AWSCURRENT")
+  );
+
+  await client.send(
+    new UpdateSecretVersionStageCommand({
+      SecretId: secretId,
+      VersionStage: "AWSCURRENT",
+      MoveToVersionId: versionId,
+      RemoveFromVersionId: currentVersionId,
+    })
+  );
+
+  // Tokens which were not generated by a rotation (i.e: stored manually) are left in place
+  currentVersionId &&
+    (await sonarqubeRequest(
+      endpoint,
+      "POST",
+      `/api/user_tokens/revoke?login=${encodeURIComponent(
+        login
+      )}&name=${encodeURIComponent(tokenName(currentVersionId))}`,
+      adminToken
+    ).catch((e) =>
+      console.info(
+        `Unable to revoke token ${tokenName(currentVersionId)}: ${e.message}`
+      )
+    ));
+};
+
+const getSecretString = async (
+  secretId: string,
+  versionId?: string,
+  versionStage?: string
+): Promise<string> =>
+  (
+    await client.send(
+      new GetSecretValueCommand({
+        SecretId: secretId,
+        VersionId: versionId,
+        VersionStage: versionStage,
+      })
+    )
+  ).SecretString!;
+
+const isTokenValid = async (endpoint: string, token: string) =>
+  sonarqubeRequest(endpoint, "GET", "/api/authentication/validate", token)
+    .then((response) => JSON.parse(response).valid === true)
+    .catch(() => false);
+
+const sonarqubeRequest = (
+  endpoint: string,
+  method: string,
+  path: string,
+  token?: string
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const req = request(
+      `${endpoint}${path}`,
+      {
+        method,
+        timeout: REQUEST_TIMEOUT_MS,
+        headers: token
+          ? {
+              Authorization: `Basic ${Buffer.from(`${token}:`).toString(
+                "base64"
+              )}`,
+            }
+          : {},
+      },
+      (res) => {
+        let body = "";
+        res.on("data", (chunk) => (body += chunk));
+        res.on("end", () =>
+          res.statusCode && res.statusCode < 300
+            ? resolve(body)
+            : reject(new Error(`Sonarqube returned ${res.statusCode}: ${body}`))
+        );
+      }
+    );
+    req.on("timeout", () =>
+      req.destroy(
+        new Error(`Sonarqube did not respond within ${REQUEST_TIMEOUT_MS}ms`)
+      )
+    );
+    req.on("error", reject);
+    req.end();
+  });
@@ -0,0 +1,166 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { BuildEnvironment } from "aws-cdk-lib/aws-codebuild";
+import { Effect, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { CodeBuildStep, DockerCredential } from "aws-cdk-lib/pipelines";
+
+/**
+ * Severity of an ECR image scan finding.
+ */
+export enum ImageScanFindingSeverity {
+  CRITICAL = "CRITICAL",
+  HIGH = "HIGH",
+  MEDIUM = "MEDIUM",
+  LOW = "LOW",
+  INFORMATIONAL = "INFORMATIONAL",
+}
+
+const SEVERITIES_BY_PRIORITY = [
+  ImageScanFindingSeverity.CRITICAL,
+  ImageScanFindingSeverity.HIGH,
+  ImageScanFindingSeverity.MEDIUM,
+  ImageScanFindingSeverity.LOW,
+  ImageScanFindingSeverity.INFORMATIONAL,
+];
+
+/**
+ * Configuration of stages which contain container image assets i.e: DockerImageAsset.
+ */
+export interface ContainerAssetsConfig {
+  /**
+   * Credentials used to authenticate with registries (i.e: DockerHub or a registry mirror) when
+   * building images in the synth, self mutation and asset publishing projects.
+   *
+   * @default undefined
+   */
+  readonly dockerCredentials?: DockerCredential[];
+
+  /**
+   * Whether the synth project requires access to docker, i.e: to bundle assets within a container.
+   *
+   * @default false
+   */
+  readonly dockerEnabledForSynth?: boolean;
+
+  /**
+   * Build environment of the asset publishing projects. Projects which publish container images are
+   * always privileged in order to build the images.
+   *
+   * @default - LinuxBuildImage.STANDARD_5_0
+   */
+  readonly buildEnvironment?: BuildEnvironment;
+
+  /**
+   * Whether the results of the ECR scan on push of each image should be checked prior to deploying
+   * the stacks of an account stage which uses them.
+   *
+   * Note: the repositories created by cdk bootstrap scan images on push.
+   *
+   * @default false
+   */
+  readonly imageScanOnPush?: boolean;
+
+  /**
+   * Minimum severity of a scan finding which prevents the stack from being deployed.
+   *
+   * @default ImageScanFindingSeverity.HIGH
+   */
+  readonly imageScanFailureThreshold?: ImageScanFindingSeverity;
+}
+
+/**
+ * An image published to an ECR repository.
+ */
+export interface ImageScanTarget {
+  /**
+   * Name of the repository the image is published to.
+   */
+  readonly repositoryName: string;
+
+  /**
+   * Tag of the image.
+   */
+  readonly imageTag: string;
+}
+
+/**
+ * ImageScanStep properties.
+ */
+export interface ImageScanStepProps {
+  /**
+   * Images to check the scan findings of.
+   */
+  readonly images: ImageScanTarget[];
+
+  /**
+   * Region of the repositories.
+   */
+  readonly region: string;
+
+  /**
+   * ARN of the cdk bootstrap lookup role of the environment containing the repositories.
+   */
+  readonly lookupRoleArn: string;
+
+  /**
+   * Minimum severity of a scan finding which fails the step.
+   *
+   * @default ImageScanFindingSeverity.HIGH
+   */
+  readonly failureThreshold?: ImageScanFindingSeverity;
+}
+
+/**
+ * A step which waits for the ECR scan on push of each image to complete and fails if any finding is
+ * at or above the failure threshold.
+ */
+export class ImageScanStep extends CodeBuildStep {
+  constructor(id: string, props: ImageScanStepProps) {
+    const threshold = props.failureThreshold ?? ImageScanFindingSeverity.HIGH;
+    const severities = SEVERITIES_BY_PRIORITY.slice(
+      0,
+      SEVERITIES_BY_PRIORITY.indexOf(threshold) + 1
+    );
+    const findingCount = `sum([${severities
+      .map(
+        (severity) =>
+          `imageScanFindings.findingSeverityCounts.${severity} || \`0\``
+      )
+      .join(", ")}])`;
+
+    super(id, {
+      commands: [
+        `export $(printf "AWS_ACCESS_KEY_ID=%s AWS_SECRET_ACCESS_KEY=%s AWS_SESSION_TOKEN=%s" \`aws sts assume-role --role-arn ${props.lookupRoleArn} --role-session-name ImageScan --query "Credentials.[AccessKeyId,SecretAccessKey,SessionToken]" --output text\`)`,
+        ...props.images.flatMap((image) => {
+          const imageArgs = `--region ${props.region} --repository-name ${image.repositoryName} --image-id imageTag=${image.imageTag}`;
+          return [
+            `aws ecr wait image-scan-complete ${imageArgs}`,
+            `FINDINGS=\`aws ecr describe-image-scan-findings ${imageArgs} --query "${findingCount}" --output text\``,
+            `if [ "$FINDINGS" != "0" ]; then echo "${image.repositoryName}:${image.imageTag} has $FINDINGS findings of severity ${threshold} or above."; exit 1; fi`,
+          ];
+        }),
+      ],
+      rolePolicyStatements: [
+        new PolicyStatement({
+          actions: ["sts:AssumeRole"],
+          effect: Effect.ALLOW,
+          resources: [props.lookupRoleArn],
+        }),
+      ],
+    });
+  }
+}
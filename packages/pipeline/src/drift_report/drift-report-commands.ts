@@ -0,0 +1,67 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { DriftReportStack } from "./drift-report";
+
+/**
+ * Directory the report is generated within.
+ */
+export const DRIFT_REPORT_DIR = "drift-report";
+
+/**
+ * Directory the cloud assembly is downloaded to.
+ */
+export const CLOUD_ASSEMBLY_DIR = "cdk.out";
+
+/**
+ * Detects the drift of the stack along with a cost estimate of its synthesized template, writing the results to
+ * <artifactId>.json within the report directory.
+ *
+ * The drift is null if detection could not be performed, i.e: the stack is not yet deployed.
+ *
+ * @param stack stack to report on.
+ */
+export const reportStack = (stack: DriftReportStack): string[] => {
+  const file = `${DRIFT_REPORT_DIR}/${stack.artifactId}`;
+  const template = `${CLOUD_ASSEMBLY_DIR}/${stack.templatePath}`;
+  const cfn = `aws cloudformation --region ${stack.region}`;
+
+  return [
+    `(export $(printf "AWS_ACCESS_KEY_ID=%s AWS_SECRET_ACCESS_KEY=%s AWS_SESSION_TOKEN=%s" \`aws sts assume-role --role-arn ${stack.lookupRoleArn} --role-session-name DriftReport --query "Credentials.[AccessKeyId,SecretAccessKey,SessionToken]" --output text\`) && DRIFT_ID=\`${cfn} detect-stack-drift --stack-name ${stack.stackName} --query StackDriftDetectionId --output text\` && until [ "\`${cfn} describe-stack-drift-detection-status --stack-drift-detection-id $DRIFT_ID --query DetectionStatus --output text\`" != "DETECTION_IN_PROGRESS" ]; do sleep 5; done && ${cfn} describe-stack-resource-drifts --stack-name ${stack.stackName} --stack-resource-drift-status-filters MODIFIED DELETED --query "StackResourceDrifts[].{logicalResourceId: LogicalResourceId, resourceType: ResourceType, status: StackResourceDriftStatus}" --output json > ${file}.drift.json; ${cfn} estimate-template-cost --template-body file://${template} --query Url --output text > ${file}.cost.txt) || echo "Unable to detect drift of ${stack.stackName}."`,
+    `[ -s ${file}.drift.json ] || echo null > ${file}.drift.json`,
+    `jq -n --arg stackName ${stack.stackName} --arg account ${stack.account} --arg region ${stack.region} --arg costEstimateUrl "\`cat ${file}.cost.txt 2>/dev/null\`" --slurpfile drifts ${file}.drift.json --slurpfile template ${template} '{stackName: $stackName, account: $account, region: $region, drifts: $drifts[0], costEstimateUrl: $costEstimateUrl, resourceCounts: ($template[0].Resources // {} | [.[].Type] | group_by(.) | map({key: .[0], value: length}) | from_entries)}' > ${file}.json`,
+  ];
+};
+
+/**
+ * Combines the report of each stack into report.json and report.html, including the change in the number of each
+ * type of resource since the previous report, and uploads them to both a timestamped and a latest location.
+ *
+ * @param stacks stacks included in the report.
+ * @param reportUri s3 uri to store the reports under.
+ */
+export const publishReport = (
+  stacks: DriftReportStack[],
+  reportUri: string
+): string[] => [
+  `aws s3 cp ${reportUri}/latest/report.json ${DRIFT_REPORT_DIR}/previous.json || echo '{"stacks": []}' > ${DRIFT_REPORT_DIR}/previous.json`,
+  `jq -n --arg generatedAt \`date -u +%Y-%m-%dT%H:%M:%SZ\` --slurpfile previous ${DRIFT_REPORT_DIR}/previous.json '{generatedAt: $generatedAt, stacks: [inputs | . as $stack | (first($previous[0].stacks[] | select(.stackName == $stack.stackName and .region == $stack.region) | .resourceCounts) // {}) as $previousCounts | $stack + {driftStatus: (if $stack.drifts == null then "UNKNOWN" elif ($stack.drifts | length) > 0 then "DRIFTED" else "IN_SYNC" end), resourceCountDeltas: ([($stack.resourceCounts + $previousCounts) | keys[] | {key: ., value: (($stack.resourceCounts[.] // 0) - ($previousCounts[.] // 0))} | select(.value != 0)] | from_entries)}]}' ${stacks
+    .map((stack) => `${DRIFT_REPORT_DIR}/${stack.artifactId}.json`)
+    .join(" ")} > ${DRIFT_REPORT_DIR}/report.json`,
+  `jq -r '"<html><head><title>Drift Report</title></head><body><h1>Drift Report \\(.generatedAt)</h1><table border=\\"1\\"><tr><th>Stack</th><th>Environment</th><th>Drift Status</th><th>Drifted Resources</th><th>Resource Changes</th><th>Cost Estimate</th></tr>" + ([.stacks[] | "<tr><td>\\(.stackName | @html)</td><td>\\(.account)/\\(.region)</td><td>\\(.driftStatus)</td><td>\\([(.drifts // [])[] | "\\(.logicalResourceId) (\\(.status))"] | join(", ") | @html)</td><td>\\([.resourceCountDeltas | to_entries[] | "\\(.key): \\(if .value > 0 then "+" else "" end)\\(.value)"] | join(", ") | @html)</td><td>\\(if .costEstimateUrl != "" then "<a href=\\"\\(.costEstimateUrl | @html)\\">Estimate</a>" else "" end)</td></tr>"] | join("")) + "</table></body></html>"' ${DRIFT_REPORT_DIR}/report.json > ${DRIFT_REPORT_DIR}/report.html`,
+  `export REPORT_TIMESTAMP=\`jq -r .generatedAt ${DRIFT_REPORT_DIR}/report.json\``,
+  `for FILE in report.json report.html; do aws s3 cp ${DRIFT_REPORT_DIR}/$FILE ${reportUri}/$REPORT_TIMESTAMP/$FILE && aws s3 cp ${DRIFT_REPORT_DIR}/$FILE ${reportUri}/latest/$FILE; done`,
+];
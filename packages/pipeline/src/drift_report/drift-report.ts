@@ -0,0 +1,303 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
+import { Duration, Stack } from "aws-cdk-lib";
+import {
+  BuildEnvironment,
+  BuildSpec,
+  LinuxBuildImage,
+  Project,
+} from "aws-cdk-lib/aws-codebuild";
+import { Rule, Schedule } from "aws-cdk-lib/aws-events";
+import { CodeBuildProject } from "aws-cdk-lib/aws-events-targets";
+import { Effect, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { IBucket } from "aws-cdk-lib/aws-s3";
+import { CodeBuildStep, FileSet } from "aws-cdk-lib/pipelines";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import {
+  CLOUD_ASSEMBLY_DIR,
+  DRIFT_REPORT_DIR,
+  publishReport,
+  reportStack,
+} from "./drift-report-commands";
+
+const DEFAULT_REPORT_PREFIX = "drift-reports";
+
+/**
+ * A stack deployed by the pipeline to include in the report.
+ */
+export interface DriftReportStack {
+  /**
+   * Name of the deployed stack.
+   */
+  readonly stackName: string;
+
+  /**
+   * Unique id of the stack within the cloud assembly, used to name the generated files.
+   */
+  readonly artifactId: string;
+
+  /**
+   * Account the stack is deployed to.
+   */
+  readonly account: string;
+
+  /**
+   * Region the stack is deployed to.
+   */
+  readonly region: string;
+
+  /**
+   * Path of the synthesized template relative to the root of the cloud assembly.
+   */
+  readonly templatePath: string;
+
+  /**
+   * ARN of the cdk bootstrap lookup role of the environment the stack is deployed to.
+   */
+  readonly lookupRoleArn: string;
+}
+
+/**
+ * Configuration of the scheduled drift and cost report.
+ */
+export interface DriftReportConfig {
+  /**
+   * Schedule to generate the report on.
+   *
+   * @default - daily
+   */
+  readonly schedule?: Schedule;
+
+  /**
+   * Prefix within the artifacts bucket to store the reports under.
+   *
+   * @default "drift-reports"
+   */
+  readonly reportPrefix?: string;
+
+  /**
+   * Qualifier of the cdk bootstrap stacks of the environments the stages are deployed to.
+   *
+   * @default - the default cdk bootstrap qualifier.
+   */
+  readonly bootstrapQualifier?: string;
+
+  /**
+   * Build environment of the report project.
+   *
+   * @default - LinuxBuildImage.STANDARD_5_0
+   */
+  readonly buildEnvironment?: BuildEnvironment;
+}
+
+/**
+ * DriftReport properties.
+ */
+export interface DriftReportProps extends DriftReportConfig {
+  /**
+   * Bucket to store the cloud assembly and reports in.
+   */
+  readonly bucket: IBucket;
+
+  /**
+   * Stacks to report on.
+   */
+  readonly stacks: DriftReportStack[];
+}
+
+/**
+ * Periodically detects the drift of every stack deployed by the pipeline and generates a report.json and
+ * report.html containing the drifted resources of each stack, the change in the number of each type of resource
+ * since the previous report and a link to a cost estimate of each synthesized template.
+ *
+ * Reports are stored under <reportPrefix>/<timestamp>/ and <reportPrefix>/latest/ within the bucket. The
+ * synthesized templates are read from the cloud assembly stored under <reportPrefix>/cloud-assembly/ by the
+ * PublishCloudAssemblyStep.
+ */
+export class DriftReport extends Construct {
+  /**
+   * CodeBuild project which generates the report.
+   */
+  public readonly project: Project;
+
+  /**
+   * S3 uri which the reports are stored under.
+   */
+  public readonly reportUri: string;
+
+  constructor(scope: Construct, id: string, props: DriftReportProps) {
+    super(scope, id);
+
+    const stack = Stack.of(this);
+    const reportPrefix = props.reportPrefix ?? DEFAULT_REPORT_PREFIX;
+    this.reportUri = `s3://${props.bucket.bucketName}/${reportPrefix}`;
+
+    this.project = new Project(this, "Project", {
+      environment: props.buildEnvironment ?? {
+        buildImage: LinuxBuildImage.STANDARD_5_0,
+      },
+      buildSpec: BuildSpec.fromObject({
+        version: "0.2",
+        env: {
+          shell: "bash",
+        },
+        phases: {
+          build: {
+            commands: [
+              `mkdir -p ${DRIFT_REPORT_DIR}`,
+              `aws s3 sync ${this.reportUri}/cloud-assembly ${CLOUD_ASSEMBLY_DIR}`,
+              ...props.stacks.flatMap(reportStack),
+              ...publishReport(props.stacks, this.reportUri),
+            ],
+          },
+        },
+      }),
+      timeout: Duration.hours(1),
+    });
+
+    props.bucket.grantRead(this.project, `${reportPrefix}/*`);
+    props.bucket.grantPut(this.project, `${reportPrefix}/*`);
+
+    const lookupRoleArns = [
+      ...new Set(props.stacks.map((s) => s.lookupRoleArn)),
+    ];
+    lookupRoleArns.length > 0 &&
+      this.project.addToRolePolicy(
+        new PolicyStatement({
+          actions: ["sts:AssumeRole"],
+          effect: Effect.ALLOW,
+          resources: lookupRoleArns,
+        })
+      );
+
+    new Rule(this, "Schedule", {
+      schedule: props.schedule ?? Schedule.rate(Duration.days(1)),
+      targets: [new CodeBuildProject(this.project)],
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      this.project.role!,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The drift report project requires access to read and write any object under the report prefix of the bucket.",
+          appliesTo: [
+            {
+              regex: "/^Action::s3:.*$/g",
+            },
+            {
+              regex: "/^Action::kms:(GenerateDataKey|ReEncrypt)\\*$/g",
+            },
+            {
+              regex: `/^Resource::<.*Bucket.*.Arn>/${reportPrefix}/\\*$/g`,
+            },
+          ],
+        },
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The drift report project requires access to create logs and report groups whose names are dynamically determined.",
+          appliesTo: [
+            {
+              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:logs:${PDKNag.getStackRegionRegex(
+                stack
+              )}:${PDKNag.getStackAccountRegex(
+                stack
+              )}:log-group:/aws/codebuild/<.*DriftReportProject.*>:\\*$/g`,
+            },
+            {
+              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:codebuild:${PDKNag.getStackRegionRegex(
+                stack
+              )}:${PDKNag.getStackAccountRegex(
+                stack
+              )}:report-group/<.*DriftReportProject.*>-\\*$/g`,
+            },
+          ],
+        },
+      ],
+      true
+    );
+  }
+}
+
+/**
+ * PublishCloudAssemblyStep properties.
+ */
+export interface PublishCloudAssemblyStepProps {
+  /**
+   * Cloud assembly produced by the synth step.
+   */
+  readonly input: FileSet;
+
+  /**
+   * Bucket to publish the templates of the cloud assembly to.
+   */
+  readonly bucket: IBucket;
+
+  /**
+   * Prefix within the bucket the report is stored under.
+   *
+   * @default "drift-reports"
+   */
+  readonly reportPrefix?: string;
+}
+
+/**
+ * A step which publishes the synthesized templates of the cloud assembly for use by the DriftReport.
+ */
+export class PublishCloudAssemblyStep extends CodeBuildStep {
+  constructor(id: string, props: PublishCloudAssemblyStepProps) {
+    const reportPrefix = props.reportPrefix ?? DEFAULT_REPORT_PREFIX;
+
+    super(id, {
+      input: props.input,
+      commands: [
+        `aws s3 sync . s3://${props.bucket.bucketName}/${reportPrefix}/cloud-assembly --delete --exclude "*" --include "*.template.json"`,
+      ],
+      rolePolicyStatements: [
+        new PolicyStatement({
+          actions: ["s3:ListBucket"],
+          effect: Effect.ALLOW,
+          resources: [props.bucket.bucketArn],
+        }),
+        new PolicyStatement({
+          actions: ["s3:GetObject", "s3:PutObject", "s3:DeleteObject"],
+          effect: Effect.ALLOW,
+          resources: [
+            props.bucket.arnForObjects(`${reportPrefix}/cloud-assembly/*`),
+          ],
+        }),
+        ...(props.bucket.encryptionKey
+          ? [
+              new PolicyStatement({
+                actions: ["kms:Decrypt", "kms:GenerateDataKey"],
+                effect: Effect.ALLOW,
+                resources: [props.bucket.encryptionKey.keyArn],
+              }),
+            ]
+          : []),
+      ],
+    });
+  }
+}
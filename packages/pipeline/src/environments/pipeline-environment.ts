@@ -0,0 +1,61 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+/**
+ * An environment which a PDK pipeline project deploys to.
+ */
+export interface PDKPipelineEnvironment {
+  /**
+   * Name of the environment i.e: Prod. Used as the id of the stage as well as to name the generated Stage class.
+   */
+  readonly name: string;
+
+  /**
+   * Account to deploy the environment to.
+   *
+   * @default - the account the pipeline is deployed to.
+   */
+  readonly account?: string;
+
+  /**
+   * Region to deploy the environment to.
+   *
+   * @default - the region the pipeline is deployed to.
+   */
+  readonly region?: string;
+
+  /**
+   * Whether a manual approval is required before the environment is deployed.
+   *
+   * @default false
+   */
+  readonly approvalRequired?: boolean;
+}
+
+/**
+ * Configuration options for the environments of a PDK pipeline project.
+ */
+export interface PDKPipelineEnvironmentsOptions {
+  /**
+   * Environments to deploy, in pipeline order. A Stage class (along with a snapshot test), a pipeline test and
+   * the pipeline entrypoint are generated once, while the environments.json manifest which the entrypoint reads
+   * the account, region and approval of each environment from is kept in sync with this list every time the
+   * project is synthesized.
+   *
+   * @default - a single Dev environment deployed to the pipeline account and region.
+   */
+  readonly environments?: PDKPipelineEnvironment[];
+}
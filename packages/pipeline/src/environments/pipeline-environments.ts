@@ -0,0 +1,133 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { Component, JsonFile, Project } from "projen";
+import { PDKPipelineEnvironment } from "./pipeline-environment";
+
+/**
+ * Manifest of the configured environments, which the generated pipeline entrypoint reads the account, region
+ * and approval of each environment from.
+ */
+export const ENVIRONMENTS_MANIFEST = "environments.json";
+
+const DEFAULT_ENVIRONMENTS: PDKPipelineEnvironment[] = [{ name: "Dev" }];
+
+/**
+ * Account and region which the generated pipeline tests deploy the pipeline and any environment without an
+ * explicit account or region to, so that the snapshots do not depend on the credentials of whoever runs them.
+ */
+export const TEST_ENVIRONMENT = {
+  account: "123456789012",
+  region: "us-east-1",
+};
+
+/**
+ * An environment along with the names of the sources generated for it.
+ */
+export interface StageEnvironment extends PDKPipelineEnvironment {
+  /**
+   * Name of the generated Stage class i.e: ProdStage.
+   */
+  readonly className: string;
+
+  /**
+   * Name of the environment in kebab case i.e: prod-eu.
+   */
+  readonly kebabName: string;
+
+  /**
+   * Name of the environment in snake case i.e: prod_eu.
+   */
+  readonly snakeName: string;
+
+  /**
+   * Whether the stage must be added via PDKPipeline.addAccountStage, as either the environment
+   * targets an explicit account or requires an approval.
+   */
+  readonly accountStage: boolean;
+}
+
+/**
+ * Validates the environments of a PDK pipeline project, derives the names of the sources generated for them and
+ * keeps the environments manifest in sync with them.
+ */
+export class PipelineEnvironments extends Component {
+  /**
+   * Environments to deploy, in pipeline order.
+   */
+  public readonly environments: StageEnvironment[];
+
+  constructor(project: Project, environments?: PDKPipelineEnvironment[]) {
+    super(project);
+
+    this.environments = (environments ?? DEFAULT_ENVIRONMENTS).map(
+      (environment) => {
+        if (!/^[A-Za-z][A-Za-z0-9]*$/.test(environment.name)) {
+          throw new Error(
+            `Invalid environment name ${environment.name}: names must start with a letter and only contain letters and digits.`
+          );
+        }
+
+        const words = environment.name
+          .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+          .toLowerCase()
+          .split(" ");
+
+        return {
+          ...environment,
+          className: `${environment.name[0].toUpperCase()}${environment.name.slice(
+            1
+          )}Stage`,
+          kebabName: words.join("-"),
+          snakeName: words.join("_"),
+          accountStage:
+            environment.account !== undefined || !!environment.approvalRequired,
+        };
+      }
+    );
+
+    if (this.environments.length === 0) {
+      throw new Error("At least one environment must be configured.");
+    }
+
+    const duplicates = this.environments
+      .map((environment) => environment.className)
+      .filter(
+        (className, i, classNames) => classNames.indexOf(className) !== i
+      );
+    if (duplicates.length > 0) {
+      throw new Error(
+        `Environment names must be unique: ${duplicates.join(", ")}.`
+      );
+    }
+
+    new JsonFile(project, ENVIRONMENTS_MANIFEST, {
+      obj: {
+        environments: Object.fromEntries(
+          this.environments.map((environment) => [
+            environment.name,
+            {
+              account: environment.account,
+              region: environment.region,
+              approvalRequired: !!environment.approvalRequired,
+            },
+          ])
+        ),
+      },
+      readonly: true,
+    });
+  }
+}
@@ -0,0 +1,268 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
+import { Stack } from "aws-cdk-lib";
+import {
+  BuildEnvironment,
+  BuildEnvironmentVariableType,
+  BuildSpec,
+  LinuxBuildImage,
+  Project,
+  Source,
+} from "aws-cdk-lib/aws-codebuild";
+import { IRepository } from "aws-cdk-lib/aws-codecommit";
+import { EventField, RuleTargetInput } from "aws-cdk-lib/aws-events";
+import { CodeBuildProject } from "aws-cdk-lib/aws-events-targets";
+import { Effect, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+
+/**
+ * Name of the environment variable containing the branch a pipeline is synthesized for.
+ */
+export const BRANCH_ENV_VAR = "PDK_PIPELINE_BRANCH";
+
+/**
+ * Commands which fail the build if any stack synthesized for the branch is not named with the branch prefix
+ * (see PDKPipeline.getBranchPrefix), as deploying or destroying it would affect the stacks of the default branch.
+ */
+const verifyBranchStackNames = (cdkOutDir: string) => [
+  `BRANCH_PREFIX="$(echo "$${BRANCH_ENV_VAR}" | sed 's/[^a-zA-Z0-9-]/-/g')-"`,
+  `STACK_NAMES="$(find ${cdkOutDir} -name manifest.json -not -path "*/asset.*" -exec jq -r '.artifacts | objects | to_entries[] | select(.value.type == "aws:cloudformation:stack") | .value.properties.stackName // .key' {} +)"`,
+  `UNPREFIXED_STACKS="$(echo "$STACK_NAMES" | grep -v "^$BRANCH_PREFIX" || true)"`,
+  `if [[ -n "$UNPREFIXED_STACKS" ]]; then echo "Refusing to manage stacks which are not named with the branch prefix $BRANCH_PREFIX:" $UNPREFIXED_STACKS; exit 1; fi`,
+];
+
+/**
+ * FeatureBranches properties.
+ */
+export interface FeatureBranchesProps {
+  /**
+   * CodeCommit repository to watch for branches.
+   */
+  readonly repository: IRepository;
+
+  /**
+   * Branch which the main pipeline is triggered from.
+   */
+  readonly defaultBranchName: string;
+
+  /**
+   * Prefixes of the branches to create pipelines for.
+   */
+  readonly branchNamePrefixes: string[];
+
+  /**
+   * Output directory for cdk synthesized artifacts i.e: packages/infra/cdk.out.
+   */
+  readonly cdkOutDir: string;
+
+  /**
+   * Commands to install dependencies prior to synthesizing the branch pipeline.
+   */
+  readonly installCommands?: string[];
+
+  /**
+   * Commands to synthesize the branch pipeline.
+   */
+  readonly commands?: string[];
+
+  /**
+   * Additional environment variables to set for the branch builds.
+   */
+  readonly env?: { [key: string]: string };
+
+  /**
+   * Build environment of the branch projects.
+   *
+   * @default - LinuxBuildImage.STANDARD_5_0
+   */
+  readonly buildEnvironment?: BuildEnvironment;
+}
+
+/**
+ * Deploys a copy of the pipeline whenever a branch matching one of the configured prefixes
+ * is created and destroys it (along with all stacks it deployed) once the branch is deleted.
+ *
+ * Every stack synthesized for a branch must be named with PDKPipeline.getBranchPrefix(), otherwise the branch
+ * builds fail rather than deploying over or destroying the stacks of the default branch.
+ */
+export class FeatureBranches extends Construct {
+  /**
+   * CodeBuild project which deploys a pipeline for a created branch.
+   */
+  public readonly createBranchProject: Project;
+
+  /**
+   * CodeBuild project which destroys the pipeline of a deleted branch.
+   */
+  public readonly destroyBranchProject: Project;
+
+  constructor(scope: Construct, id: string, props: FeatureBranchesProps) {
+    super(scope, id);
+
+    this.createBranchProject = this.createBranchBuildProject(
+      "CreateBranchProject",
+      props,
+      `npx cdk deploy --app ${props.cdkOutDir} --require-approval never --all`
+    );
+    this.destroyBranchProject = this.createBranchBuildProject(
+      "DestroyBranchProject",
+      props,
+      `npx cdk destroy --app ${props.cdkOutDir} --force "**"`
+    );
+
+    const referenceName = props.branchNamePrefixes.map((prefix) => ({
+      prefix,
+    }));
+
+    props.repository.onReferenceCreated("OnBranchCreated", {
+      eventPattern: {
+        detail: {
+          referenceType: ["branch"],
+          referenceName,
+        },
+      },
+      target: new CodeBuildProject(this.createBranchProject, {
+        event: RuleTargetInput.fromObject({
+          sourceVersion: EventField.fromPath("$.detail.referenceFullName"),
+          environmentVariablesOverride: [
+            {
+              name: BRANCH_ENV_VAR,
+              type: "PLAINTEXT",
+              value: EventField.fromPath("$.detail.referenceName"),
+            },
+          ],
+        }),
+      }),
+    });
+
+    // The branch no longer exists, so the default branch is used to synthesize the stacks to destroy
+    props.repository.onReferenceDeleted("OnBranchDeleted", {
+      eventPattern: {
+        detail: {
+          referenceType: ["branch"],
+          referenceName,
+        },
+      },
+      target: new CodeBuildProject(this.destroyBranchProject, {
+        event: RuleTargetInput.fromObject({
+          environmentVariablesOverride: [
+            {
+              name: BRANCH_ENV_VAR,
+              type: "PLAINTEXT",
+              value: EventField.fromPath("$.detail.referenceName"),
+            },
+          ],
+        }),
+      }),
+    });
+  }
+
+  private createBranchBuildProject(
+    id: string,
+    props: FeatureBranchesProps,
+    cdkCommand: string
+  ): Project {
+    const stack = Stack.of(this);
+
+    const project = new Project(this, id, {
+      source: Source.codeCommit({
+        repository: props.repository,
+        branchOrRef: props.defaultBranchName,
+      }),
+      environment: props.buildEnvironment ?? {
+        buildImage: LinuxBuildImage.STANDARD_5_0,
+      },
+      environmentVariables: Object.fromEntries(
+        Object.entries(props.env || {}).map(([key, value]) => [
+          key,
+          { type: BuildEnvironmentVariableType.PLAINTEXT, value },
+        ])
+      ),
+      buildSpec: BuildSpec.fromObject({
+        version: "0.2",
+        env: {
+          shell: "bash",
+        },
+        phases: {
+          pre_build: {
+            commands: [
+              `if [[ -z "$${BRANCH_ENV_VAR}" || "$${BRANCH_ENV_VAR}" == "${props.defaultBranchName}" ]]; then echo "Refusing to manage the pipeline of the default branch."; exit 1; fi`,
+            ],
+          },
+          build: {
+            commands: [
+              ...(props.installCommands || []),
+              ...(props.commands || []),
+              ...verifyBranchStackNames(props.cdkOutDir),
+              cdkCommand,
+            ],
+          },
+        },
+      }),
+    });
+
+    // Deployments are performed via the cdk bootstrap roles
+    project.addToRolePolicy(
+      new PolicyStatement({
+        actions: ["sts:AssumeRole"],
+        effect: Effect.ALLOW,
+        resources: [`arn:*:iam::${stack.account}:role/cdk-*`],
+      })
+    );
+
+    NagSuppressions.addResourceSuppressions(
+      project.role!,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Branch CodeBuild projects require access to create logs and report groups whose names are dynamically determined and to assume the cdk bootstrap roles in order to deploy.",
+          appliesTo: [
+            {
+              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:logs:${PDKNag.getStackRegionRegex(
+                stack
+              )}:${PDKNag.getStackAccountRegex(
+                stack
+              )}:log-group:/aws/codebuild/<.*FeatureBranches${id}.*>:\\*$/g`,
+            },
+            {
+              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:codebuild:${PDKNag.getStackRegionRegex(
+                stack
+              )}:${PDKNag.getStackAccountRegex(
+                stack
+              )}:report-group/<.*FeatureBranches${id}.*>-\\*$/g`,
+            },
+            {
+              regex: `/^Resource::arn:\\*:iam::${PDKNag.getStackAccountRegex(
+                stack
+              )}:role/cdk-\\*$/g`,
+            },
+          ],
+        },
+      ],
+      true
+    );
+
+    return project;
+  }
+}
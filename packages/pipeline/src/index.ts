@@ -14,6 +14,7 @@
  limitations under the License.
  ******************************************************************************************************************** */
 export * from "./pdk-pipeline";
+export * from "./environments/pipeline-environment";
 export * from "./pdk-pipeline-ts-project";
 export * from "./pdk-pipeline-py-project";
 export * from "./pdk-pipeline-java-project";
@@ -0,0 +1,227 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import {
+  CfnOutput,
+  DefaultStackSynthesizer,
+  Stack,
+  Stage,
+  Token,
+} from "aws-cdk-lib";
+import { Effect, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { CodeBuildStep, IFileSetProducer, Step } from "aws-cdk-lib/pipelines";
+import { Construct } from "constructs";
+
+const PREVIOUS_TEMPLATES_DIR = "previous-templates";
+
+/**
+ * Configuration of the integration tests to run once a stage has been deployed.
+ */
+export interface StageIntegrationTestConfig {
+  /**
+   * Commands to run the integration tests. The tests are considered failed if any command fails.
+   */
+  readonly commands: string[];
+
+  /**
+   * Commands to install dependencies prior to running the tests.
+   *
+   * @default undefined
+   */
+  readonly installCommands?: string[];
+
+  /**
+   * Environment variables to set from the outputs of stacks within the stage i.e: the url of an API or website.
+   *
+   * @default undefined
+   */
+  readonly envFromCfnOutputs?: Record<string, CfnOutput>;
+
+  /**
+   * Additional environment variables to set for the tests.
+   *
+   * @default undefined
+   */
+  readonly env?: Record<string, string>;
+
+  /**
+   * Source containing the tests.
+   *
+   * @default - no input for StageIntegrationTest, the repository for PDKPipeline.addAccountStage.
+   */
+  readonly input?: IFileSetProducer;
+
+  /**
+   * Whether the stacks of the stage should be rolled back to their previously deployed templates if the tests fail.
+   *
+   * @default true
+   */
+  readonly rollbackOnFailure?: boolean;
+
+  /**
+   * Qualifier used when the target environment was bootstrapped.
+   *
+   * @default DefaultStackSynthesizer.DEFAULT_QUALIFIER
+   */
+  readonly bootstrapQualifier?: string;
+}
+
+/**
+ * Steps which run integration tests against a deployed stage and roll its stacks back to the previously
+ * deployed templates if the tests fail.
+ *
+ * As CloudFormation has no notion of a previous template once an update completes, the templates of the
+ * stacks are captured prior to deployment. The rollback is performed via the cdk bootstrap deploy role
+ * of the target environment, after uploading the captured template to its assets bucket via the cdk
+ * bootstrap file publishing role, as the deploy role may only read from the bucket.
+ *
+ * @example
+ * const integrationTest = new StageIntegrationTest(pipeline, stage, {
+ *   commands: ["curl --fail $API_URL/health"],
+ *   envFromCfnOutputs: { API_URL: apiUrlOutput },
+ * });
+ * pipeline.addStage(stage, { pre: integrationTest.pre, post: integrationTest.post });
+ */
+export class StageIntegrationTest {
+  /**
+   * Steps to run prior to deploying the stage.
+   */
+  public readonly pre: Step[];
+
+  /**
+   * Steps to run once the stage has been deployed.
+   */
+  public readonly post: Step[];
+
+  /**
+   * @param scope construct within the pipeline stack.
+   * @param stage stage to test.
+   * @param config configuration of the tests.
+   */
+  constructor(
+    scope: Construct,
+    stage: Stage,
+    config: StageIntegrationTestConfig
+  ) {
+    const pipelineStack = Stack.of(scope);
+    const qualifier =
+      config.bootstrapQualifier ?? DefaultStackSynthesizer.DEFAULT_QUALIFIER;
+
+    // Stacks without an explicit environment are deployed to the environment of the pipeline
+    const stacks = stage.node
+      .findAll()
+      .filter(Stack.isStack)
+      .map((stack) => {
+        const account = Token.isUnresolved(stack.account)
+          ? pipelineStack.account
+          : stack.account;
+        const region = Token.isUnresolved(stack.region)
+          ? pipelineStack.region
+          : stack.region;
+        return {
+          stackName: stack.stackName,
+          region,
+          deployRoleArn: `arn:${pipelineStack.partition}:iam::${account}:role/cdk-${qualifier}-deploy-role-${account}-${region}`,
+          cfnExecRoleArn: `arn:${pipelineStack.partition}:iam::${account}:role/cdk-${qualifier}-cfn-exec-role-${account}-${region}`,
+          filePublishingRoleArn: `arn:${pipelineStack.partition}:iam::${account}:role/cdk-${qualifier}-file-publishing-role-${account}-${region}`,
+          assetsBucketName: `cdk-${qualifier}-assets-${account}-${region}`,
+        };
+      });
+
+    const captureRolePolicyStatements = [
+      new PolicyStatement({
+        actions: ["sts:AssumeRole"],
+        effect: Effect.ALLOW,
+        resources: [...new Set(stacks.map((s) => s.deployRoleArn))],
+      }),
+    ];
+    const rollbackRolePolicyStatements = [
+      new PolicyStatement({
+        actions: ["sts:AssumeRole"],
+        effect: Effect.ALLOW,
+        resources: [
+          ...new Set(
+            stacks.flatMap((s) => [s.deployRoleArn, s.filePublishingRoleArn])
+          ),
+        ],
+      }),
+    ];
+
+    const captureStep =
+      config.rollbackOnFailure !== false
+        ? new CodeBuildStep("CaptureTemplates", {
+            commands: [
+              `mkdir -p ${PREVIOUS_TEMPLATES_DIR}`,
+              `touch ${PREVIOUS_TEMPLATES_DIR}/.captured`,
+              ...stacks.map((stack) =>
+                withRole(
+                  stack.deployRoleArn,
+                  `aws cloudformation get-template --region ${stack.region} --stack-name ${stack.stackName} --template-stage Original --query TemplateBody --output json > ${PREVIOUS_TEMPLATES_DIR}/${stack.stackName}.json || (rm -f ${PREVIOUS_TEMPLATES_DIR}/${stack.stackName}.json && echo "No previous template for ${stack.stackName}.")`
+                )
+              ),
+            ],
+            primaryOutputDirectory: PREVIOUS_TEMPLATES_DIR,
+            rolePolicyStatements: captureRolePolicyStatements,
+          })
+        : undefined;
+
+    // Roll back in reverse order so that dependent stacks are rolled back first
+    const rollbackCommands = [...stacks].reverse().map((stack) => {
+      const template = `${PREVIOUS_TEMPLATES_DIR}/${stack.stackName}.json`;
+      const key = `pdk-pipeline-rollback/${stack.stackName}-$CODEBUILD_BUILD_NUMBER.json`;
+      return `[ ! -f ${template} ] || (${withRole(
+        stack.filePublishingRoleArn,
+        `aws s3 cp ${template} s3://${stack.assetsBucketName}/${key}`
+      )} && ${withRole(
+        stack.deployRoleArn,
+        [
+          `PARAMETERS=\`jq -r '.Parameters // {} | keys[] | "ParameterKey=\\(.),UsePreviousValue=true"' ${template}\``,
+          `aws cloudformation update-stack --region ${stack.region} --stack-name ${stack.stackName} --template-url https://${stack.assetsBucketName}.s3.${stack.region}.${pipelineStack.urlSuffix}/${key} \${PARAMETERS:+--parameters $PARAMETERS} --capabilities CAPABILITY_IAM CAPABILITY_NAMED_IAM CAPABILITY_AUTO_EXPAND --role-arn ${stack.cfnExecRoleArn}`,
+          `aws cloudformation wait stack-update-complete --region ${stack.region} --stack-name ${stack.stackName}`,
+        ].join(" && ")
+      )}) || echo "Unable to roll back ${stack.stackName}."`;
+    });
+
+    const testStep = new CodeBuildStep("IntegrationTest", {
+      input: config.input,
+      additionalInputs: captureStep
+        ? { [PREVIOUS_TEMPLATES_DIR]: captureStep }
+        : undefined,
+      installCommands: config.installCommands,
+      env: config.env,
+      envFromCfnOutputs: config.envFromCfnOutputs,
+      commands: [
+        `if (set -e; ${config.commands.join(
+          "; "
+        )}); then echo "Integration tests passed."; else echo "Integration tests failed."; ${
+          captureStep ? `${rollbackCommands.join("; ")}; ` : ""
+        }exit 1; fi`,
+      ],
+      rolePolicyStatements: captureStep
+        ? rollbackRolePolicyStatements
+        : undefined,
+    });
+
+    this.pre = captureStep ? [captureStep] : [];
+    this.post = [testStep];
+  }
+}
+
+/**
+ * Runs the command within a subshell using the credentials of the given role.
+ */
+const withRole = (roleArn: string, command: string) =>
+  `(export $(printf "AWS_ACCESS_KEY_ID=%s AWS_SECRET_ACCESS_KEY=%s AWS_SESSION_TOKEN=%s" \`aws sts assume-role --role-arn ${roleArn} --role-session-name StageIntegrationTest --query "Credentials.[AccessKeyId,SecretAccessKey,SessionToken]" --output text\`) && ${command})`;
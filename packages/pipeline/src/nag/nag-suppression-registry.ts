@@ -0,0 +1,170 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { Annotations, CfnResource } from "aws-cdk-lib";
+import { NagPackSuppression, NagSuppressions, rules } from "cdk-nag";
+import { Construct, IConstruct } from "constructs";
+
+const IAM5 = "AwsSolutions-IAM5";
+
+/**
+ * A suppression which no longer applies to any finding of the constructs it was registered against.
+ */
+export interface StaleNagSuppression {
+  /**
+   * Paths of the constructs the suppression was registered against.
+   */
+  readonly paths: string[];
+
+  /**
+   * Id of the suppressed rule.
+   */
+  readonly ruleId: string;
+
+  /**
+   * The appliesTo entry which did not match any finding, or undefined if the suppression applies to the whole rule.
+   */
+  readonly appliesTo?: string;
+}
+
+/**
+ * NagSuppressionRegistry properties.
+ */
+export interface NagSuppressionRegistryProps {
+  /**
+   * Whether stale suppressions should fail synthesis, rather than be reported as warnings.
+   *
+   * @default false
+   */
+  readonly failOnStaleSuppressions?: boolean;
+}
+
+interface RegisteredSuppressions {
+  readonly targets: IConstruct[];
+  readonly suppressions: NagPackSuppression[];
+}
+
+/**
+ * Applies nag suppressions to constructs and reports those which have become stale when synthesized.
+ *
+ * Staleness is evaluated against the AwsSolutions-IAM5 findings of the policies within the targets, as
+ * these are the only findings which can be determined from the constructs themselves.
+ */
+export class NagSuppressionRegistry extends Construct {
+  private readonly registered: RegisteredSuppressions[] = [];
+
+  constructor(
+    scope: Construct,
+    id: string,
+    props?: NagSuppressionRegistryProps
+  ) {
+    super(scope, id);
+
+    this.node.addValidation({
+      validate: () => {
+        const messages = this.findStaleSuppressions().map(
+          (stale) =>
+            `Nag suppression for ${stale.ruleId}${
+              stale.appliesTo ? ` (${stale.appliesTo})` : ""
+            } does not match any finding of ${stale.paths.join(
+              ", "
+            )} and can be removed.`
+        );
+        if (props?.failOnStaleSuppressions) {
+          return messages;
+        }
+
+        messages.forEach((message) => Annotations.of(this).addWarning(message));
+        return [];
+      },
+    });
+  }
+  /**
+   * Applies the suppressions to each of the targets and their children.
+   *
+   * A suppression is only considered stale when it matches no finding across all of the targets,
+   * which allows a suppression to be shared by constructs that may or may not require it.
+   *
+   * @param targets constructs to apply the suppressions to.
+   * @param suppressions list of suppressions to apply.
+   */
+  public addSuppressions(
+    targets: IConstruct[],
+    suppressions: NagPackSuppression[]
+  ): void {
+    if (targets.length === 0) {
+      return;
+    }
+
+    targets.forEach((target) =>
+      NagSuppressions.addResourceSuppressions(target, suppressions, true)
+    );
+    this.registered.push({ targets, suppressions });
+  }
+
+  /**
+   * Returns the registered suppressions which do not match any finding of their targets.
+   */
+  public findStaleSuppressions(): StaleNagSuppression[] {
+    return this.registered.flatMap(({ targets, suppressions }) => {
+      const findings = targets.flatMap(iamWildcardFindings);
+      const paths = targets.map((target) => target.node.path);
+
+      return suppressions
+        .filter((suppression) => suppression.id === IAM5)
+        .flatMap((suppression): StaleNagSuppression[] => {
+          if (!suppression.appliesTo) {
+            return findings.length === 0
+              ? [{ paths, ruleId: suppression.id }]
+              : [];
+          }
+
+          return suppression.appliesTo
+            .map((appliesTo) =>
+              typeof appliesTo === "string" ? appliesTo : appliesTo.regex
+            )
+            .filter((appliesTo) => !findings.find(matcher(appliesTo)))
+            .map((appliesTo) => ({ paths, ruleId: suppression.id, appliesTo }));
+        });
+    });
+  }
+}
+
+/**
+ * Returns a predicate which determines whether a finding matches an appliesTo entry, where a regex
+ * entry is of the form /pattern/flags.
+ */
+const matcher = (appliesTo: string) => {
+  const regex = appliesTo.match(/^\/(.*)\/([a-z]*)$/);
+  if (!regex) {
+    return (finding: string) => finding === appliesTo;
+  }
+  const pattern = new RegExp(regex[1], regex[2].replace("g", ""));
+  return (finding: string) => pattern.test(finding);
+};
+
+/**
+ * Returns the AwsSolutions-IAM5 findings of all IAM resources within the construct, as evaluated by
+ * the cdk-nag rule itself i.e: Action::s3:GetObject* or Resource::<ArtifactsBucket.Arn>/*.
+ */
+const iamWildcardFindings = (construct: IConstruct): string[] =>
+  construct.node
+    .findAll()
+    .filter(CfnResource.isCfnResource)
+    .flatMap((resource) => {
+      const result = rules.iam.IAMNoWildcardPermissions(resource);
+      return Array.isArray(result) ? result : [];
+    });
@@ -0,0 +1,90 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { request } from "https";
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager";
+import { SNSEvent, SNSEventRecord } from "aws-lambda";
+
+const client = new SecretsManagerClient({});
+
+let webhookUrl: string | undefined;
+
+/**
+ * Handler which forwards CodeStar Notifications published to SNS to an Amazon Chime webhook. The
+ * webhook URL is read from Secrets Manager once per execution environment.
+ */
+exports.onEvent = async (event: SNSEvent) => {
+  if (!webhookUrl) {
+    webhookUrl = await getWebhookUrl(process.env.CHIME_WEBHOOK_SECRET_ARN!);
+  }
+  const url = webhookUrl;
+
+  await Promise.all(
+    event.Records.map((record: SNSEventRecord) =>
+      postToWebhook(url, formatMessage(record.Sns.Message))
+    )
+  );
+};
+
+const getWebhookUrl = async (secretArn: string): Promise<string> => {
+  const { SecretString } = await client.send(
+    new GetSecretValueCommand({ SecretId: secretArn })
+  );
+  if (!SecretString) {
+    throw new Error(`Secret ${secretArn} does not contain a webhook URL`);
+  }
+
+  return SecretString;
+};
+
+const formatMessage = (message: string): string => {
+  try {
+    const notification = JSON.parse(message);
+    const state =
+      notification.detail?.state ?? notification.detail?.["build-status"];
+
+    return [
+      `/md **${notification.detailType}**${state ? `: ${state}` : ""}`,
+      ...(notification.resources || []),
+    ].join("\n");
+  } catch (e) {
+    return message;
+  }
+};
+
+const postToWebhook = (url: string, content: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+      },
+      (res) => {
+        res.resume();
+        res.on("end", () =>
+          res.statusCode && res.statusCode < 300
+            ? resolve()
+            : reject(new Error(`Chime webhook returned ${res.statusCode}`))
+        );
+      }
+    );
+    req.on("error", reject);
+    req.end(JSON.stringify({ Content: content }));
+  });
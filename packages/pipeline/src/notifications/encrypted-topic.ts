@@ -0,0 +1,93 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { RemovalPolicy } from "aws-cdk-lib";
+import {
+  AnyPrincipal,
+  Effect,
+  Grant,
+  IGrantable,
+  PolicyStatement,
+} from "aws-cdk-lib/aws-iam";
+import { Key } from "aws-cdk-lib/aws-kms";
+import { Topic, TopicProps } from "aws-cdk-lib/aws-sns";
+import { EmailSubscription } from "aws-cdk-lib/aws-sns-subscriptions";
+import { Construct } from "constructs";
+
+/**
+ * EncryptedTopic properties.
+ */
+export interface EncryptedTopicProps extends TopicProps {
+  /**
+   * Email addresses to subscribe to the topic.
+   *
+   * @default undefined
+   */
+  readonly emails?: string[];
+}
+
+/**
+ * An SNS Topic which is encrypted with a customer managed key and only accepts
+ * requests sent over SSL.
+ */
+export class EncryptedTopic extends Topic {
+  /**
+   * Key used to encrypt the messages published to the topic.
+   */
+  public readonly key: Key;
+
+  constructor(scope: Construct, id: string, props?: EncryptedTopicProps) {
+    const key = new Key(scope, `${id}Key`, {
+      enableKeyRotation: true,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    super(scope, id, {
+      ...props,
+      masterKey: key,
+    });
+
+    this.key = key;
+
+    this.addToResourcePolicy(
+      new PolicyStatement({
+        effect: Effect.DENY,
+        principals: [new AnyPrincipal()],
+        actions: ["sns:Publish"],
+        resources: [this.topicArn],
+        conditions: {
+          Bool: {
+            "aws:SecureTransport": "false",
+          },
+        },
+      })
+    );
+
+    (props?.emails || []).forEach((email) =>
+      this.addSubscription(new EmailSubscription(email))
+    );
+  }
+
+  /**
+   * Grants publish permissions to the topic as well as usage of the encryption key.
+   *
+   * @param grantee principal to grant permissions to.
+   */
+  grantPublish(grantee: IGrantable): Grant {
+    this.key.grant(grantee, "kms:Decrypt", "kms:GenerateDataKey");
+    return super.grantPublish(grantee);
+  }
+}
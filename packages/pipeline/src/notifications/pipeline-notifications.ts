@@ -0,0 +1,238 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import * as path from "path";
+import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
+import { Duration, Stack } from "aws-cdk-lib";
+import { SlackChannelConfiguration } from "aws-cdk-lib/aws-chatbot";
+import { IProject } from "aws-cdk-lib/aws-codebuild";
+import { IPipeline } from "aws-cdk-lib/aws-codepipeline";
+import {
+  DetailType,
+  INotificationRuleSource,
+  NotificationRule,
+} from "aws-cdk-lib/aws-codestarnotifications";
+import { Code, Function } from "aws-cdk-lib/aws-lambda";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { ITopic } from "aws-cdk-lib/aws-sns";
+import {
+  EmailSubscription,
+  LambdaSubscription,
+} from "aws-cdk-lib/aws-sns-subscriptions";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { HANDLER_RUNTIME } from "../handler-runtime";
+import { EncryptedTopic } from "./encrypted-topic";
+
+/**
+ * Slack channel to notify via AWS Chatbot.
+ *
+ * Note: The Slack workspace must be authorized with AWS Chatbot via the console beforehand.
+ */
+export interface SlackChannelConfig {
+  /**
+   * Id of the Slack workspace i.e: T0123ABCD.
+   */
+  readonly slackWorkspaceId: string;
+
+  /**
+   * Id of the Slack channel i.e: C0123ABCD.
+   */
+  readonly slackChannelId: string;
+}
+
+/**
+ * Configuration of the notifications sent for the pipeline.
+ */
+export interface PipelineNotificationsConfig {
+  /**
+   * Topic to publish notifications to.
+   *
+   * @default - an encrypted topic is created.
+   */
+  readonly notificationTopic?: ITopic;
+
+  /**
+   * Email addresses to subscribe to the notification topic.
+   *
+   * @default undefined
+   */
+  readonly emails?: string[];
+
+  /**
+   * Slack channel to deliver notifications to via AWS Chatbot.
+   *
+   * @default undefined
+   */
+  readonly slackChannel?: SlackChannelConfig;
+
+  /**
+   * Secret containing the Amazon Chime webhook URL to deliver notifications to, stored as plaintext.
+   *
+   * @default undefined
+   */
+  readonly chimeWebhookUrlSecret?: ISecret;
+
+  /**
+   * Whether successful executions and builds should also be notified, rather than only failures.
+   *
+   * @default false
+   */
+  readonly notifyOnSuccess?: boolean;
+
+  /**
+   * Level of detail to include in the notifications.
+   *
+   * @default DetailType.BASIC
+   */
+  readonly detailType?: DetailType;
+}
+
+/**
+ * PipelineNotifications properties.
+ */
+export interface PipelineNotificationsProps
+  extends PipelineNotificationsConfig {
+  /**
+   * Pipeline to notify the execution state changes of.
+   */
+  readonly pipeline: IPipeline;
+
+  /**
+   * CodeBuild project which synthesizes the pipeline.
+   */
+  readonly synthProject: IProject;
+
+  /**
+   * CodeBuild project which scans the synthesized code, if any.
+   *
+   * @default undefined
+   */
+  readonly codeScannerProject?: IProject;
+}
+
+/**
+ * Notifies a topic (and optionally Slack and/or Amazon Chime) whenever the pipeline, synth or
+ * code scanner builds fail.
+ */
+export class PipelineNotifications extends Construct {
+  /**
+   * Topic which notifications are published to.
+   */
+  public readonly notificationTopic: ITopic;
+
+  constructor(scope: Construct, id: string, props: PipelineNotificationsProps) {
+    super(scope, id);
+
+    this.notificationTopic =
+      props.notificationTopic ?? new EncryptedTopic(this, "NotificationTopic");
+    (props.emails || []).forEach((email) =>
+      this.notificationTopic.addSubscription(new EmailSubscription(email))
+    );
+
+    const targets = [
+      this.notificationTopic,
+      ...(props.slackChannel
+        ? [
+            new SlackChannelConfiguration(this, "SlackChannel", {
+              slackChannelConfigurationName: `${
+                Stack.of(this).stackName
+              }-${id}`.substring(0, 128),
+              slackWorkspaceId: props.slackChannel.slackWorkspaceId,
+              slackChannelId: props.slackChannel.slackChannelId,
+            }),
+          ]
+        : []),
+    ];
+
+    props.chimeWebhookUrlSecret &&
+      this.notificationTopic.addSubscription(
+        new LambdaSubscription(
+          this.createChimeWebhookHandler(props.chimeWebhookUrlSecret)
+        )
+      );
+
+    const buildStates = props.notifyOnSuccess
+      ? ["failed", "succeeded"]
+      : ["failed"];
+    const createRule = (
+      ruleId: string,
+      source: INotificationRuleSource,
+      events: string[]
+    ) =>
+      new NotificationRule(this, ruleId, {
+        source,
+        events,
+        targets,
+        detailType: props.detailType ?? DetailType.BASIC,
+      });
+
+    createRule(
+      "PipelineNotificationRule",
+      props.pipeline,
+      [
+        "failed",
+        "canceled",
+        ...(props.notifyOnSuccess ? ["succeeded"] : []),
+      ].map((state) => `codepipeline-pipeline-pipeline-execution-${state}`)
+    );
+    createRule(
+      "SynthNotificationRule",
+      props.synthProject,
+      buildStates.map((state) => `codebuild-project-build-state-${state}`)
+    );
+    props.codeScannerProject &&
+      createRule(
+        "CodeScannerNotificationRule",
+        props.codeScannerProject,
+        buildStates.map((state) => `codebuild-project-build-state-${state}`)
+      );
+  }
+
+  private createChimeWebhookHandler(webhookUrlSecret: ISecret): Function {
+    const handler = new Function(this, "ChimeWebhookHandler", {
+      code: Code.fromAsset(path.join(__dirname, "chime_webhook_handler")),
+      handler: "index.onEvent",
+      runtime: HANDLER_RUNTIME,
+      timeout: Duration.seconds(30),
+      environment: {
+        CHIME_WEBHOOK_SECRET_ARN: webhookUrlSecret.secretArn,
+      },
+    });
+    webhookUrlSecret.grantRead(handler);
+
+    NagSuppressions.addResourceSuppressions(
+      handler,
+      [
+        {
+          id: "AwsSolutions-IAM4",
+          reason:
+            "The Chime webhook handler only requires the permissions to write its logs.",
+          appliesTo: [
+            {
+              regex: `/^Policy::arn:${PDKNag.getStackPartitionRegex(
+                Stack.of(this)
+              )}:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole$/g`,
+            },
+          ],
+        },
+      ],
+      true
+    );
+
+    return handler;
+  }
+}
@@ -14,14 +14,27 @@
  limitations under the License.
  ******************************************************************************************************************** */
 
+import * as fs from "fs";
 import * as path from "path";
-import { SampleDir } from "projen";
+import { SampleFile } from "projen";
 import { AwsCdkJavaApp, AwsCdkJavaAppOptions } from "projen/lib/awscdk";
+import { PDKPipelineEnvironmentsOptions } from "./environments/pipeline-environment";
+import {
+  ENVIRONMENTS_MANIFEST,
+  PipelineEnvironments,
+  StageEnvironment,
+  TEST_ENVIRONMENT,
+} from "./environments/pipeline-environments";
+
+const SAMPLE_DIR = path.join(__dirname, "..", "samples", "java", "src");
+const SAMPLE_PACKAGE = path.join("java", "software", "aws");
 
 /**
  * Configuration options for the PDKPipelineJavaProject.
  */
-export interface PDKPipelineJavaProjectOptions extends AwsCdkJavaAppOptions {}
+export interface PDKPipelineJavaProjectOptions
+  extends AwsCdkJavaAppOptions,
+    PDKPipelineEnvironmentsOptions {}
 
 /**
  * Synthesizes a Java Project with a CI/CD pipeline.
@@ -43,48 +56,329 @@ export class PDKPipelineJavaProject extends AwsCdkJavaApp {
     this.addDependency("software.aws.awsprototypingsdk/aws-prototyping-sdk@^0");
     this.addDependency("io.github.cdklabs/cdknag@^2");
 
-    this.testTask.exec("mvn test");
+    // Produce the coverage report which is picked up by the Sonarqube scanner alongside the surefire reports
+    this.pom.addPlugin("org.jacoco/jacoco-maven-plugin@0.8.8", {
+      executions: [{ id: "prepare-agent", goals: ["prepare-agent"] }],
+    });
+    this.testTask.exec("mvn test jacoco:report");
     this.addTestDependency("org.junit.jupiter/junit-jupiter-api@5.7.0");
     this.addTestDependency("org.junit.jupiter/junit-jupiter-engine@5.7.0");
 
-    const mainPackage = this.mainClass
-      .split(" ")[0]
-      .split(".")
-      .slice(0, -1)
-      .join(".");
-    new SampleDir(
-      this,
-      path.join("src", "main", "java", ...mainPackage.split(".")),
-      {
-        sourceDir: path.join(
-          __dirname,
-          "..",
-          "samples",
-          "java",
-          "src",
-          "main",
-          "java",
-          "software",
-          "aws"
-        ),
-      }
+    const [mainClass] = this.mainClass.split(" ");
+    const mainPackage = mainClass.split(".").slice(0, -1).join(".");
+    const mainDir = path.join("src", "main", "java", ...mainPackage.split("."));
+    const testDir = path.join("src", "test", "java", ...mainPackage.split("."));
+
+    const sampleFile = (sourceDir: string, dir: string, fileName: string) =>
+      new SampleFile(this, path.join(dir, fileName), {
+        contents: fs
+          .readFileSync(
+            path.join(SAMPLE_DIR, sourceDir, SAMPLE_PACKAGE, fileName)
+          )
+          .toString()
+          .replace("package software.aws;", `package ${mainPackage};`),
+      });
+    ["ApplicationStack.java", "PipelineStack.java"].forEach((fileName) =>
+      sampleFile("main", mainDir, fileName)
     );
-    new SampleDir(
+
+    const environments = new PipelineEnvironments(this, options.environments);
+    new SampleFile(
       this,
-      path.join("src", "test", "java", ...mainPackage.split(".")),
+      path.join(mainDir, `${mainClass.split(".").pop()}.java`),
       {
-        sourceDir: path.join(
-          __dirname,
-          "..",
-          "samples",
-          "java",
-          "src",
-          "test",
-          "java",
-          "software",
-          "aws"
+        contents: renderEntrypoint(
+          environments.environments,
+          mainPackage,
+          mainClass.split(".").pop()!
         ),
       }
     );
+    new SampleFile(this, path.join(testDir, "PipelineTest.java"), {
+      contents: renderPipelineTest(environments.environments, mainPackage),
+    });
+    environments.environments.forEach((environment) => {
+      new SampleFile(
+        this,
+        path.join(mainDir, `${environment.className}.java`),
+        {
+          contents: renderStage(environment, mainPackage),
+        }
+      );
+      new SampleFile(
+        this,
+        path.join(testDir, `${environment.className}Test.java`),
+        { contents: renderStageTest(environment, mainPackage) }
+      );
+    });
   }
 }
+
+/**
+ * Renders the account, region and approval of an environment, or of the pipeline stack if no environment is given.
+ */
+interface EnvValues {
+  readonly account: (environment?: StageEnvironment) => string;
+  readonly region: (environment?: StageEnvironment) => string;
+  readonly approval: (environment: StageEnvironment) => string;
+}
+
+const manifestEntry = (environment: StageEnvironment) =>
+  `environments.get("${environment.name}")`;
+
+const ENTRYPOINT_ENV: EnvValues = {
+  account: (environment) =>
+    environment
+      ? `${manifestEntry(
+          environment
+        )}.path("account").asText(System.getenv("CDK_DEFAULT_ACCOUNT"))`
+      : 'System.getenv("CDK_DEFAULT_ACCOUNT")',
+  region: (environment) =>
+    environment
+      ? `${manifestEntry(
+          environment
+        )}.path("region").asText(System.getenv("CDK_DEFAULT_REGION"))`
+      : 'System.getenv("CDK_DEFAULT_REGION")',
+  approval: (environment) =>
+    `${manifestEntry(environment)}.get("approvalRequired").asBoolean()`,
+};
+
+const TEST_ENV: EnvValues = {
+  account: (environment) =>
+    `"${environment?.account ?? TEST_ENVIRONMENT.account}"`,
+  region: (environment) =>
+    `"${environment?.region ?? TEST_ENVIRONMENT.region}"`,
+  approval: (environment) => `${!!environment.approvalRequired}`,
+};
+
+const renderEnv = (
+  environment: StageEnvironment | undefined,
+  values: EnvValues,
+  indent: string
+) => [
+  `${indent}.env(Environment.builder()`,
+  `${indent}        .account(${values.account(environment)})`,
+  `${indent}        .region(${values.region(environment)})`,
+  `${indent}        .build())`,
+];
+
+const renderImports = (environments: StageEnvironment[]) => [
+  "import software.amazon.awscdk.Environment;",
+  "import software.amazon.awscdk.StackProps;",
+  "import software.amazon.awscdk.StageProps;",
+  "import software.aws.awsprototypingsdk.pdknag.PDKNag;",
+  "import software.aws.awsprototypingsdk.pdknag.PDKNagApp;",
+  ...(environments.some((environment) => environment.accountStage)
+    ? ["import software.aws.awsprototypingsdk.pipeline.AccountStageProps;"]
+    : []),
+];
+
+const renderPipeline = (
+  environments: StageEnvironment[],
+  values: EnvValues
+) => [
+  '        PipelineStack pipelineStack = new PipelineStack(app, "PipelineStack", StackProps.builder()',
+  ...renderEnv(undefined, values, "                "),
+  "                .build());",
+  ...environments.flatMap((environment) => {
+    const stage = [
+      `new ${environment.className}(app, "${environment.name}", StageProps.builder()`,
+      ...renderEnv(environment, values, "                "),
+      "                .build())",
+    ];
+    return [
+      "",
+      ...(environment.accountStage
+        ? [
+            "        pipelineStack.getPipeline().addAccountStage(AccountStageProps.builder()",
+            `                .stage(${stage[0]}`,
+            ...stage.slice(1, -1).map((line) => `        ${line}`),
+            "                        .build()))",
+            `                .approval(${values.approval(environment)})`,
+            "                .build());",
+          ]
+        : [
+            `        pipelineStack.getPipeline().addStage(${stage[0]}`,
+            ...stage.slice(1, -1),
+            "                .build()));",
+          ]),
+    ];
+  }),
+  "",
+  "        pipelineStack.getPipeline().buildPipeline(); // Needed for CDK Nag",
+];
+
+const renderSnapshotAssertions = (scope: string) => [
+  `        for (IConstruct construct : ${scope}.getNode().findAll()) {`,
+  "            if (!(construct instanceof Stack)) {",
+  "                continue;",
+  "            }",
+  "",
+  "            Stack stack = (Stack) construct;",
+  "            String template = new ObjectMapper().writerWithDefaultPrettyPrinter()",
+  "                    .writeValueAsString(Template.fromStack(stack).toJSON());",
+  '            Path snapshot = SNAPSHOT_DIR.resolve(stack.getStackName() + ".json");',
+  "",
+  "            // The snapshot is recorded on the first run, delete it to accept changes to the template",
+  "            if (!Files.exists(snapshot)) {",
+  "                Files.createDirectories(SNAPSHOT_DIR);",
+  "                Files.write(snapshot, template.getBytes(StandardCharsets.UTF_8));",
+  "            }",
+  "",
+  "            assertEquals(new String(Files.readAllBytes(snapshot), StandardCharsets.UTF_8), template);",
+  "        }",
+];
+
+const renderSnapshotDir = (className: string) =>
+  `    private static final Path SNAPSHOT_DIR = Paths.get("src", "test", "resources", "__snapshots__", "${className}");`;
+
+const renderEntrypoint = (
+  environments: StageEnvironment[],
+  mainPackage: string,
+  className: string
+) =>
+  [
+    `package ${mainPackage};`,
+    "",
+    "import com.fasterxml.jackson.databind.JsonNode;",
+    "import com.fasterxml.jackson.databind.ObjectMapper;",
+    "import java.io.File;",
+    "import java.io.IOException;",
+    ...renderImports(environments),
+    "",
+    `public class ${className} {`,
+    "    public static void main(String[] args) throws IOException {",
+    `        // The account, region and approval of each environment are kept in sync with the projen configuration via ${ENVIRONMENTS_MANIFEST}`,
+    `        JsonNode environments = new ObjectMapper().readTree(new File("${ENVIRONMENTS_MANIFEST}")).get("environments");`,
+    "",
+    "        PDKNagApp app = PDKNag.app();",
+    ...renderPipeline(environments, ENTRYPOINT_ENV),
+    "        app.synth();",
+    "    }",
+    "}",
+    "",
+  ].join("\n");
+
+const renderPipelineTest = (
+  environments: StageEnvironment[],
+  mainPackage: string
+) =>
+  [
+    `package ${mainPackage};`,
+    "",
+    "import static org.junit.jupiter.api.Assertions.assertEquals;",
+    "",
+    "import com.fasterxml.jackson.databind.ObjectMapper;",
+    "import java.io.IOException;",
+    "import java.nio.charset.StandardCharsets;",
+    "import java.nio.file.Files;",
+    "import java.nio.file.Path;",
+    "import java.nio.file.Paths;",
+    "import java.util.Collections;",
+    "import java.util.stream.Collectors;",
+    "import org.junit.jupiter.api.Test;",
+    ...[
+      ...renderImports(environments),
+      "import software.amazon.awscdk.Stack;",
+      "import software.amazon.awscdk.assertions.Template;",
+      "import software.aws.awsprototypingsdk.pdknag.PDKNagAppProps;",
+      "import software.constructs.IConstruct;",
+    ].sort(),
+    "",
+    "public class PipelineTest {",
+    renderSnapshotDir("PipelineTest"),
+    "",
+    "    @Test",
+    "    public void testPipeline() throws IOException {",
+    "        // Synthesis fails if any of the stacks contain unsuppressed nag errors",
+    "        PDKNagApp app = PDKNag.app(PDKNagAppProps.builder().failOnError(true).build());",
+    ...renderPipeline(environments, TEST_ENV),
+    "        app.synth();",
+    "",
+    "        assertEquals(Collections.emptyList(), app.nagResults().stream()",
+    "                .filter(result -> result.getMessages().stream()",
+    '                        .anyMatch(message -> message.getMessageType().equals("aws:cdk:error")))',
+    "                .collect(Collectors.toList()));",
+    "",
+    ...renderSnapshotAssertions("app"),
+    "    }",
+    "}",
+    "",
+  ].join("\n");
+
+const renderStage = (environment: StageEnvironment, mainPackage: string) =>
+  [
+    `package ${mainPackage};`,
+    "",
+    "import org.jetbrains.annotations.Nullable;",
+    "import software.amazon.awscdk.Stage;",
+    "import software.amazon.awscdk.StageProps;",
+    "import software.constructs.Construct;",
+    "",
+    "/**",
+    ` * Stacks deployed to the ${environment.name} environment.`,
+    " */",
+    `public class ${environment.className} extends Stage {`,
+    `    public ${environment.className}(Construct scope, String id, @Nullable StageProps props) {`,
+    "        super(scope, id, props);",
+    "",
+    '        new ApplicationStack(this, "MyApplication", null);',
+    "    }",
+    "}",
+    "",
+  ].join("\n");
+
+const renderStageTest = (environment: StageEnvironment, mainPackage: string) =>
+  [
+    `package ${mainPackage};`,
+    "",
+    "import static org.junit.jupiter.api.Assertions.assertEquals;",
+    "",
+    "import com.fasterxml.jackson.databind.ObjectMapper;",
+    "import java.io.IOException;",
+    "import java.nio.charset.StandardCharsets;",
+    "import java.nio.file.Files;",
+    "import java.nio.file.Path;",
+    "import java.nio.file.Paths;",
+    "import org.junit.jupiter.api.Test;",
+    "import software.amazon.awscdk.App;",
+    ...(environment.account || environment.region
+      ? ["import software.amazon.awscdk.Environment;"]
+      : []),
+    "import software.amazon.awscdk.Stack;",
+    ...(environment.account || environment.region
+      ? ["import software.amazon.awscdk.StageProps;"]
+      : []),
+    "import software.amazon.awscdk.assertions.Template;",
+    "import software.constructs.IConstruct;",
+    "",
+    `public class ${environment.className}Test {`,
+    renderSnapshotDir(`${environment.className}Test`),
+    "",
+    "    @Test",
+    `    public void test${environment.className}() throws IOException {`,
+    "        App app = new App();",
+    `        ${environment.className} stage = new ${
+      environment.className
+    }(app, "${environment.name}", ${
+      environment.account || environment.region
+        ? [
+            "StageProps.builder()",
+            "                .env(Environment.builder()",
+            ...(environment.account
+              ? [`                        .account("${environment.account}")`]
+              : []),
+            ...(environment.region
+              ? [`                        .region("${environment.region}")`]
+              : []),
+            "                        .build())",
+            "                .build()",
+          ].join("\n")
+        : "null"
+    });`,
+    "",
+    ...renderSnapshotAssertions("stage"),
+    "    }",
+    "}",
+    "",
+  ].join("\n");
@@ -14,16 +14,26 @@
  limitations under the License.
  ******************************************************************************************************************** */
 
-import * as fs from "fs";
 import * as path from "path";
-import { SampleDir } from "projen";
+import { SampleFile } from "projen";
 import { AwsCdkPythonApp, AwsCdkPythonAppOptions } from "projen/lib/awscdk";
 import { Pytest } from "projen/lib/python";
+import { PDKPipelineEnvironmentsOptions } from "./environments/pipeline-environment";
+import {
+  ENVIRONMENTS_MANIFEST,
+  PipelineEnvironments,
+  StageEnvironment,
+  TEST_ENVIRONMENT,
+} from "./environments/pipeline-environments";
+
+const SAMPLE_DIR = path.join(__dirname, "..", "samples", "python");
 
 /**
  * Configuration options for the PDKPipelinePyProject.
  */
-export interface PDKPipelinePyProjectOptions extends AwsCdkPythonAppOptions {}
+export interface PDKPipelinePyProjectOptions
+  extends AwsCdkPythonAppOptions,
+    PDKPipelineEnvironmentsOptions {}
 
 /**
  * Synthesizes a Python Project with a CI/CD pipeline.
@@ -45,29 +55,254 @@ export class PDKPipelinePyProject extends AwsCdkPythonApp {
       this.addDependency(dep)
     );
 
-    new SampleDir(this, this.moduleName, {
-      sourceDir: path.join(__dirname, "..", "samples", "python", "infra"),
-    });
+    ["application_stack.py", "pipeline_stack.py"].forEach(
+      (fileName) =>
+        new SampleFile(this, path.join(this.moduleName, fileName), {
+          sourcePath: path.join(SAMPLE_DIR, "infra", fileName),
+        })
+    );
 
     this.pytest = new Pytest(this, options.pytestOptions);
 
-    new SampleDir(this, this.testdir, {
-      files: {
-        "__init__.py": "",
-        "test_pipeline.py": fs
-          .readFileSync(
-            path.join(
-              __dirname,
-              "..",
-              "samples",
-              "python",
-              "tests",
-              "test_pipeline.py"
-            )
-          )
-          .toString()
-          .replace("infra.", `${this.moduleName}.`),
-      },
+    // Produce the coverage and test reports which are picked up by the Sonarqube scanner
+    this.addDevDependency("pytest-cov@^3.0.0");
+    const testCommand = [
+      "pytest",
+      `--cov=${this.moduleName}`,
+      "--cov-report=xml",
+      "--junitxml=pytest-report.xml",
+      ...(options.pytestOptions?.maxFailures
+        ? [`--maxfail=${options.pytestOptions.maxFailures}`]
+        : []),
+    ].join(" ");
+    this.testTask.reset(testCommand);
+    this.gitignore.exclude("pytest-report.xml");
+
+    // Stage and pipeline tests compare the synthesized templates with snapshots recorded by syrupy
+    this.addDevDependency("syrupy@^3.0.0");
+    this.addTask("test:update", {
+      description: "Update syrupy snapshots",
+      exec: `${testCommand} --snapshot-update`,
+    });
+
+    new SampleFile(this, path.join(this.testdir, "__init__.py"), {
+      sourcePath: path.join(SAMPLE_DIR, "tests", "__init__.py"),
+    });
+    new SampleFile(this, path.join(this.testdir, "conftest.py"), {
+      contents: [
+        "import os",
+        "import sys",
+        "",
+        "# Allows the tests to import the pipeline sources in the same way as the pipeline entrypoint",
+        `sys.path.insert(0, os.path.join(os.path.dirname(__file__), "..", "${this.moduleName}"))`,
+        "",
+      ].join("\n"),
+    });
+
+    const environments = new PipelineEnvironments(this, options.environments);
+    new SampleFile(this, this.appEntrypoint, {
+      contents: renderEntrypoint(
+        environments.environments,
+        path.relative(path.dirname(this.appEntrypoint), this.moduleName)
+      ),
+    });
+    new SampleFile(this, path.join(this.testdir, "test_pipeline.py"), {
+      contents: renderPipelineTest(environments.environments),
+    });
+    environments.environments.forEach((environment) => {
+      new SampleFile(
+        this,
+        path.join(this.moduleName, `${environment.snakeName}_stage.py`),
+        { contents: renderStage(environment) }
+      );
+      new SampleFile(
+        this,
+        path.join(this.testdir, `test_${environment.snakeName}_stage.py`),
+        { contents: renderStageTest(environment) }
+      );
     });
   }
 }
+
+/**
+ * Renders the account, region and approval of an environment, or of the pipeline stack if no environment is given.
+ */
+interface EnvValues {
+  readonly account: (environment?: StageEnvironment) => string;
+  readonly region: (environment?: StageEnvironment) => string;
+  readonly approval: (environment: StageEnvironment) => string;
+}
+
+const manifestEntry = (environment: StageEnvironment) =>
+  `environments["${environment.name}"]`;
+
+const ENTRYPOINT_ENV: EnvValues = {
+  account: (environment) =>
+    environment
+      ? `${manifestEntry(
+          environment
+        )}.get("account", os.environ["CDK_DEFAULT_ACCOUNT"])`
+      : 'os.environ["CDK_DEFAULT_ACCOUNT"]',
+  region: (environment) =>
+    environment
+      ? `${manifestEntry(
+          environment
+        )}.get("region", os.environ["CDK_DEFAULT_REGION"])`
+      : 'os.environ["CDK_DEFAULT_REGION"]',
+  approval: (environment) =>
+    `${manifestEntry(environment)}["approvalRequired"]`,
+};
+
+const TEST_ENV: EnvValues = {
+  account: (environment) =>
+    `"${environment?.account ?? TEST_ENVIRONMENT.account}"`,
+  region: (environment) =>
+    `"${environment?.region ?? TEST_ENVIRONMENT.region}"`,
+  approval: (environment) => (environment.approvalRequired ? "True" : "False"),
+};
+
+const renderEnv = (environment: StageEnvironment, values: EnvValues) =>
+  `Environment(${[
+    `account=${values.account(environment)}`,
+    `region=${values.region(environment)}`,
+  ].join(", ")})`;
+
+const renderImports = (environments: StageEnvironment[]) =>
+  [
+    ...environments.map(
+      (environment) =>
+        `from ${environment.snakeName}_stage import ${environment.className}`
+    ),
+    "from pipeline_stack import PipelineStack",
+  ].sort();
+
+const renderPipeline = (
+  environments: StageEnvironment[],
+  values: EnvValues
+) => [
+  'pipeline_stack = PipelineStack(app, "PipelineStack", env=Environment(',
+  `    account=${values.account()},`,
+  `    region=${values.region()}`,
+  "))",
+  ...environments.flatMap((environment) => {
+    const stage = `${environment.className}(app, "${
+      environment.name
+    }", env=${renderEnv(environment, values)})`;
+    return [
+      "",
+      ...(environment.accountStage
+        ? [
+            "pipeline_stack.pipeline.add_account_stage(",
+            `    stage=${stage},`,
+            `    approval=${values.approval(environment)}`,
+            ")",
+          ]
+        : [`pipeline_stack.pipeline.add_stage(${stage})`]),
+    ];
+  }),
+  "",
+  "pipeline_stack.pipeline.build_pipeline()  # Needed for CDK Nag",
+];
+
+const renderEntrypoint = (
+  environments: StageEnvironment[],
+  moduleDir: string
+) =>
+  [
+    "import json",
+    "import os",
+    ...(moduleDir
+      ? [
+          "import sys",
+          "",
+          `sys.path.insert(0, os.path.join(os.path.dirname(__file__), "${moduleDir}"))`,
+          "",
+        ]
+      : []),
+    "from aws_cdk import Environment",
+    "from aws_prototyping_sdk.pdk_nag import PDKNag",
+    ...renderImports(environments),
+    "",
+    `# The account, region and approval of each environment are kept in sync with the projen configuration via ${ENVIRONMENTS_MANIFEST}`,
+    `with open("${ENVIRONMENTS_MANIFEST}") as manifest:`,
+    '    environments = json.load(manifest)["environments"]',
+    "",
+    "app = PDKNag.app()",
+    "",
+    ...renderPipeline(environments, ENTRYPOINT_ENV),
+    "app.synth()",
+    "",
+  ].join("\n");
+
+const renderPipelineTest = (environments: StageEnvironment[]) =>
+  [
+    "from aws_cdk import Environment, Stack",
+    "from aws_cdk.assertions import Template",
+    "from aws_prototyping_sdk.pdk_nag import PDKNag",
+    "",
+    ...renderImports(environments),
+    "",
+    "",
+    "def test_pipeline(snapshot):",
+    "    # Synthesis fails if any of the stacks contain unsuppressed nag errors",
+    "    app = PDKNag.app(fail_on_error=True)",
+    "",
+    ...renderPipeline(environments, TEST_ENV).map((line) =>
+      line ? `    ${line}` : line
+    ),
+    "    app.synth()",
+    "",
+    "    assert [",
+    "        result for result in app.nag_results()",
+    '        if any(message.message_type == "aws:cdk:error" for message in result.messages)',
+    "    ] == []",
+    "",
+    "    for stack in [c for c in app.node.find_all() if isinstance(c, Stack)]:",
+    "        assert Template.from_stack(stack).to_json() == snapshot",
+    "",
+  ].join("\n");
+
+const renderStage = (environment: StageEnvironment) =>
+  [
+    "from aws_cdk import Stage",
+    "",
+    "from application_stack import ApplicationStack",
+    "",
+    "",
+    `class ${environment.className}(Stage):`,
+    `    """Stacks deployed to the ${environment.name} environment."""`,
+    "",
+    "    def __init__(self, scope, id, **kwargs):",
+    "        super().__init__(scope, id, **kwargs)",
+    "",
+    '        ApplicationStack(self, "MyApplication")',
+    "",
+  ].join("\n");
+
+const renderStageTest = (environment: StageEnvironment) =>
+  [
+    `from aws_cdk import App${
+      environment.account || environment.region ? ", Environment" : ""
+    }, Stack`,
+    "from aws_cdk.assertions import Template",
+    "",
+    `from ${environment.snakeName}_stage import ${environment.className}`,
+    "",
+    "",
+    `def test_${environment.snakeName}_stage(snapshot):`,
+    "    app = App()",
+    `    stage = ${environment.className}(app, "${environment.name}"${
+      environment.account || environment.region
+        ? `, env=Environment(${[
+            ...(environment.account
+              ? [`account="${environment.account}"`]
+              : []),
+            ...(environment.region ? [`region="${environment.region}"`] : []),
+          ].join(", ")})`
+        : ""
+    })`,
+    "",
+    "    for stack in [c for c in stage.node.find_all() if isinstance(c, Stack)]:",
+    "        assert Template.from_stack(stack).to_json() == snapshot",
+    "",
+  ].join("\n");
@@ -0,0 +1,240 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { RemovalPolicy } from "aws-cdk-lib";
+import { IRepository, Repository } from "aws-cdk-lib/aws-codecommit";
+import { IBucket } from "aws-cdk-lib/aws-s3";
+import {
+  CodeCommitSourceOptions,
+  CodePipelineSource,
+  ConnectionSourceOptions,
+  S3SourceOptions,
+} from "aws-cdk-lib/pipelines";
+import { Construct } from "constructs";
+
+/**
+ * Options to configure a CodeCommit repository created by the PDKPipeline.
+ */
+export interface PDKPipelineCodeCommitSourceOptions
+  extends CodeCommitSourceOptions {
+  /**
+   * Removal policy to apply to the created repository.
+   *
+   * @default RemovalPolicy.RETAIN
+   */
+  readonly removalPolicy?: RemovalPolicy;
+}
+
+/**
+ * Result of binding a PDKPipelineSource to a pipeline.
+ */
+export interface PDKPipelineSourceConfig {
+  /**
+   * Source to use as the input of the synth step.
+   */
+  readonly input: CodePipelineSource;
+
+  /**
+   * CodeCommit repository backing the source, if any.
+   */
+  readonly repository?: IRepository;
+}
+
+/**
+ * Source of the code which the PDKPipeline builds.
+ */
+export abstract class PDKPipelineSource {
+  /**
+   * Creates a new CodeCommit repository and uses it as the source.
+   *
+   * @param repositoryName name of the CodeCommit repository to create.
+   * @param options additional options to configure the source with.
+   */
+  public static codeCommit(
+    repositoryName: string,
+    options?: PDKPipelineCodeCommitSourceOptions
+  ): PDKPipelineSource {
+    return new CodeCommitPipelineSource(repositoryName, options);
+  }
+
+  /**
+   * Uses an existing CodeCommit repository as the source.
+   *
+   * @param repository existing CodeCommit repository.
+   * @param options additional options to configure the source with.
+   */
+  public static fromRepository(
+    repository: IRepository,
+    options?: CodeCommitSourceOptions
+  ): PDKPipelineSource {
+    return new ExistingRepositoryPipelineSource(repository, options);
+  }
+
+  /**
+   * Uses a CodeStar Connection (i.e: GitHub, GitHub Enterprise, Bitbucket or GitLab) as the source.
+   *
+   * @param repoString repository in the form of owner/repo.
+   * @param options options containing the ARN of the CodeStar Connection.
+   */
+  public static connection(
+    repoString: string,
+    options: ConnectionSourceOptions
+  ): PDKPipelineSource {
+    return new ConnectionPipelineSource(repoString, options);
+  }
+
+  /**
+   * Uses a zip archive in an S3 bucket as the source.
+   *
+   * Note: the branch name is not applicable for this source.
+   *
+   * @param bucket bucket containing the source archive.
+   * @param objectKey key of the source archive.
+   * @param options additional options to configure the source with.
+   */
+  public static s3(
+    bucket: IBucket,
+    objectKey: string,
+    options?: S3SourceOptions
+  ): PDKPipelineSource {
+    return new S3PipelineSource(bucket, objectKey, options);
+  }
+
+  /**
+   * Returns the source to use for pipelines synthesized for feature branches, which must not create
+   * any resources already created by the pipeline of the default branch.
+   */
+  public forFeatureBranch(): PDKPipelineSource {
+    return this;
+  }
+
+  /**
+   * Creates any required resources and returns the configured source.
+   *
+   * @param scope scope in which to create any resources.
+   * @param branch branch to trigger the pipeline execution.
+   */
+  public abstract bind(
+    scope: Construct,
+    branch: string
+  ): PDKPipelineSourceConfig;
+}
+
+class CodeCommitPipelineSource extends PDKPipelineSource {
+  constructor(
+    private readonly repositoryName: string,
+    private readonly options?: PDKPipelineCodeCommitSourceOptions
+  ) {
+    super();
+  }
+
+  public bind(scope: Construct, branch: string): PDKPipelineSourceConfig {
+    const { removalPolicy, ...sourceOptions } = this.options || {};
+
+    const repository = new Repository(scope, "CodeRepository", {
+      repositoryName: this.repositoryName,
+    });
+    repository.applyRemovalPolicy(removalPolicy ?? RemovalPolicy.RETAIN);
+
+    return {
+      input: CodePipelineSource.codeCommit(repository, branch, sourceOptions),
+      repository,
+    };
+  }
+
+  public forFeatureBranch(): PDKPipelineSource {
+    const { removalPolicy, ...sourceOptions } = this.options || {};
+
+    return new RepositoryNamePipelineSource(this.repositoryName, sourceOptions);
+  }
+}
+
+class RepositoryNamePipelineSource extends PDKPipelineSource {
+  constructor(
+    private readonly repositoryName: string,
+    private readonly options?: CodeCommitSourceOptions
+  ) {
+    super();
+  }
+
+  public bind(scope: Construct, branch: string): PDKPipelineSourceConfig {
+    const repository = Repository.fromRepositoryName(
+      scope,
+      "CodeRepository",
+      this.repositoryName
+    );
+
+    return {
+      input: CodePipelineSource.codeCommit(repository, branch, this.options),
+      repository,
+    };
+  }
+}
+
+class ExistingRepositoryPipelineSource extends PDKPipelineSource {
+  constructor(
+    private readonly repository: IRepository,
+    private readonly options?: CodeCommitSourceOptions
+  ) {
+    super();
+  }
+
+  public bind(_scope: Construct, branch: string): PDKPipelineSourceConfig {
+    return {
+      input: CodePipelineSource.codeCommit(
+        this.repository,
+        branch,
+        this.options
+      ),
+      repository: this.repository,
+    };
+  }
+}
+
+class ConnectionPipelineSource extends PDKPipelineSource {
+  constructor(
+    private readonly repoString: string,
+    private readonly options: ConnectionSourceOptions
+  ) {
+    super();
+  }
+
+  public bind(_scope: Construct, branch: string): PDKPipelineSourceConfig {
+    return {
+      input: CodePipelineSource.connection(
+        this.repoString,
+        branch,
+        this.options
+      ),
+    };
+  }
+}
+
+class S3PipelineSource extends PDKPipelineSource {
+  constructor(
+    private readonly bucket: IBucket,
+    private readonly objectKey: string,
+    private readonly options?: S3SourceOptions
+  ) {
+    super();
+  }
+
+  public bind(_scope: Construct, _branch: string): PDKPipelineSourceConfig {
+    return {
+      input: CodePipelineSource.s3(this.bucket, this.objectKey, this.options),
+    };
+  }
+}
@@ -15,17 +15,27 @@
  ******************************************************************************************************************** */
 
 import * as path from "path";
-import { SampleDir } from "projen";
+import { SampleFile } from "projen";
 import {
   AwsCdkTypeScriptApp,
   AwsCdkTypeScriptAppOptions,
 } from "projen/lib/awscdk";
+import { PDKPipelineEnvironmentsOptions } from "./environments/pipeline-environment";
+import {
+  ENVIRONMENTS_MANIFEST,
+  PipelineEnvironments,
+  StageEnvironment,
+  TEST_ENVIRONMENT,
+} from "./environments/pipeline-environments";
+
+const SAMPLE_DIR = path.join(__dirname, "..", "samples", "typescript");
 
 /**
  * Configuration options for the PDKPipelineTsProject.
  */
 export interface PDKPipelineTsProjectOptions
-  extends AwsCdkTypeScriptAppOptions {}
+  extends AwsCdkTypeScriptAppOptions,
+    PDKPipelineEnvironmentsOptions {}
 
 /**
  * Synthesizes a Typescript Project with a CI/CD pipeline.
@@ -47,12 +57,217 @@ export class PDKPipelineTsProject extends AwsCdkTypeScriptApp {
 
     this.addDeps("aws-prototyping-sdk", "cdk-nag");
 
-    new SampleDir(this, this.srcdir, {
-      sourceDir: path.join(__dirname, "..", "samples", "typescript", "src"),
-    });
+    ["application-stack.ts", "pipeline-stack.ts"].forEach(
+      (fileName) =>
+        new SampleFile(this, path.join(this.srcdir, fileName), {
+          sourcePath: path.join(SAMPLE_DIR, "src", fileName),
+        })
+    );
 
-    new SampleDir(this, this.testdir, {
-      sourceDir: path.join(__dirname, "..", "samples", "typescript", "test"),
+    const environments = new PipelineEnvironments(this, options.environments);
+    new SampleFile(this, path.join(this.srcdir, this.appEntrypoint), {
+      contents: renderEntrypoint(environments.environments),
+    });
+    new SampleFile(this, path.join(this.testdir, "pipeline.test.ts"), {
+      contents: renderPipelineTest(
+        environments.environments,
+        path.relative(this.testdir, this.srcdir)
+      ),
+    });
+    environments.environments.forEach((environment) => {
+      new SampleFile(
+        this,
+        path.join(this.srcdir, `${environment.kebabName}-stage.ts`),
+        { contents: renderStage(environment) }
+      );
+      new SampleFile(
+        this,
+        path.join(this.testdir, `${environment.kebabName}-stage.test.ts`),
+        {
+          contents: renderStageTest(
+            environment,
+            path.relative(this.testdir, this.srcdir)
+          ),
+        }
+      );
     });
   }
 }
+
+/**
+ * Renders the account, region and approval of an environment, or of the pipeline stack if no environment is given.
+ */
+interface EnvValues {
+  readonly account: (environment?: StageEnvironment) => string;
+  readonly region: (environment?: StageEnvironment) => string;
+  readonly approval: (environment: StageEnvironment) => string;
+}
+
+const manifestEntry = (environment: StageEnvironment) =>
+  `environments['${environment.name}']`;
+
+const ENTRYPOINT_ENV: EnvValues = {
+  account: (environment) =>
+    `${
+      environment ? `${manifestEntry(environment)}.account ?? ` : ""
+    }process.env.CDK_DEFAULT_ACCOUNT!`,
+  region: (environment) =>
+    `${
+      environment ? `${manifestEntry(environment)}.region ?? ` : ""
+    }process.env.CDK_DEFAULT_REGION!`,
+  approval: (environment) => `${manifestEntry(environment)}.approvalRequired`,
+};
+
+const TEST_ENV: EnvValues = {
+  account: (environment) =>
+    `'${environment?.account ?? TEST_ENVIRONMENT.account}'`,
+  region: (environment) =>
+    `'${environment?.region ?? TEST_ENVIRONMENT.region}'`,
+  approval: (environment) => `${!!environment.approvalRequired}`,
+};
+
+const renderEnv = (
+  environment: StageEnvironment | undefined,
+  values: EnvValues,
+  indent: string
+) => [
+  `${indent}env: {`,
+  `${indent}  account: ${values.account(environment)},`,
+  `${indent}  region: ${values.region(environment)},`,
+  `${indent}},`,
+];
+
+const renderImports = (environments: StageEnvironment[], srcdir: string) =>
+  [
+    ...environments.map(
+      (environment) =>
+        `import { ${environment.className} } from '${srcdir}/${environment.kebabName}-stage';`
+    ),
+    `import { PipelineStack } from '${srcdir}/pipeline-stack';`,
+  ].sort((a, b) => a.split("'")[1].localeCompare(b.split("'")[1]));
+
+const renderPipeline = (
+  environments: StageEnvironment[],
+  values: EnvValues
+) => [
+  "const pipelineStack = new PipelineStack(app, 'PipelineStack', {",
+  ...renderEnv(undefined, values, "  "),
+  "});",
+  ...environments.flatMap((environment) => {
+    const stage = [
+      `  new ${environment.className}(app, '${environment.name}', {`,
+      ...renderEnv(environment, values, "    "),
+      "  }),",
+    ];
+    return environment.accountStage
+      ? [
+          "",
+          "pipelineStack.pipeline.addAccountStage({",
+          `  stage: ${stage[0].trim()}`,
+          ...stage.slice(1),
+          `  approval: ${values.approval(environment)},`,
+          "});",
+        ]
+      : ["", "pipelineStack.pipeline.addStage(", ...stage, ");"];
+  }),
+  "",
+  "pipelineStack.pipeline.buildPipeline(); // Needed for CDK Nag",
+];
+
+const renderEntrypoint = (environments: StageEnvironment[]) =>
+  [
+    "import * as fs from 'fs';",
+    "import { PDKNag } from 'aws-prototyping-sdk/pdk-nag';",
+    ...renderImports(environments, "."),
+    "",
+    `// The account, region and approval of each environment are kept in sync with the projen configuration via ${ENVIRONMENTS_MANIFEST}`,
+    `const { environments } = JSON.parse(fs.readFileSync('${ENVIRONMENTS_MANIFEST}', 'utf-8'));`,
+    "",
+    "const app = PDKNag.app();",
+    "",
+    ...renderPipeline(environments, ENTRYPOINT_ENV),
+    "app.synth();",
+    "",
+  ].join("\n");
+
+const renderPipelineTest = (environments: StageEnvironment[], srcdir: string) =>
+  [
+    "import { Stack } from 'aws-cdk-lib';",
+    "import { Template } from 'aws-cdk-lib/assertions';",
+    "import { PDKNag } from 'aws-prototyping-sdk/pdk-nag';",
+    ...renderImports(environments, srcdir),
+    "",
+    "test('Pipeline', () => {",
+    "  // Synthesis fails if any of the stacks contain unsuppressed nag errors",
+    "  const app = PDKNag.app({ failOnError: true });",
+    "",
+    ...renderPipeline(environments, TEST_ENV).map((line) =>
+      line ? `  ${line}` : line
+    ),
+    "  app.synth();",
+    "",
+    "  expect(",
+    "    app",
+    "      .nagResults()",
+    "      .filter((result) =>",
+    "        result.messages.some((message) => message.messageType === 'aws:cdk:error'),",
+    "      ),",
+    "  ).toEqual([]);",
+    "",
+    "  app.node",
+    "    .findAll()",
+    "    .filter(Stack.isStack)",
+    "    .forEach((stack) =>",
+    "      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot(stack.stackName),",
+    "    );",
+    "});",
+    "",
+  ].join("\n");
+
+const renderStage = (environment: StageEnvironment) =>
+  [
+    "import { Stage, StageProps } from 'aws-cdk-lib';",
+    "import { Construct } from 'constructs';",
+    "import { ApplicationStack } from './application-stack';",
+    "",
+    "/**",
+    ` * Stacks deployed to the ${environment.name} environment.`,
+    " */",
+    `export class ${environment.className} extends Stage {`,
+    "  constructor(scope: Construct, id: string, props?: StageProps) {",
+    "    super(scope, id, props);",
+    "",
+    "    new ApplicationStack(this, 'MyApplication');",
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+
+const renderStageTest = (environment: StageEnvironment, srcdir: string) =>
+  [
+    "import { App, Stack } from 'aws-cdk-lib';",
+    "import { Template } from 'aws-cdk-lib/assertions';",
+    `import { ${environment.className} } from '${srcdir}/${environment.kebabName}-stage';`,
+    "",
+    `test('${environment.className}', () => {`,
+    "  const app = new App();",
+    `  const stage = new ${environment.className}(app, '${environment.name}'${
+      environment.account || environment.region
+        ? `, {\n    env: { ${[
+            ...(environment.account
+              ? [`account: '${environment.account}'`]
+              : []),
+            ...(environment.region ? [`region: '${environment.region}'`] : []),
+          ].join(", ")} },\n  }`
+        : ""
+    });`,
+    "",
+    "  stage.node",
+    "    .findAll()",
+    "    .filter(Stack.isStack)",
+    "    .forEach((stack) =>",
+    "      expect(Template.fromStack(stack).toJSON()).toMatchSnapshot(stack.stackName),",
+    "    );",
+    "});",
+    "",
+  ].join("\n");
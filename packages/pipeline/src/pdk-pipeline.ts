@@ -14,35 +14,145 @@
  limitations under the License.
  ******************************************************************************************************************** */
 
+import * as path from "path";
 import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
-import { Aspects, CfnOutput, RemovalPolicy, Stack, Stage } from "aws-cdk-lib";
-import { Repository } from "aws-cdk-lib/aws-codecommit";
+import {
+  Aspects,
+  Aws,
+  CfnOutput,
+  CfnResource,
+  ContextProvider,
+  DefaultStackSynthesizer,
+  Duration,
+  Lazy,
+  RemovalPolicy,
+  Stack,
+  Stage,
+  Token,
+} from "aws-cdk-lib";
+import {
+  BuildSpec,
+  Cache,
+  CfnProject,
+  mergeBuildSpecs,
+  Project,
+} from "aws-cdk-lib/aws-codebuild";
+import { IRepository } from "aws-cdk-lib/aws-codecommit";
 import { Pipeline } from "aws-cdk-lib/aws-codepipeline";
+import { DockerImageAsset } from "aws-cdk-lib/aws-ecr-assets";
+import {
+  CfnPolicy,
+  Effect,
+  Policy,
+  PolicyStatement,
+  Role,
+} from "aws-cdk-lib/aws-iam";
+import { Key } from "aws-cdk-lib/aws-kms";
 import {
   BlockPublicAccess,
   Bucket,
   BucketEncryption,
+  IBucket,
 } from "aws-cdk-lib/aws-s3";
+import { EmailSubscription } from "aws-cdk-lib/aws-sns-subscriptions";
+import { StringParameter } from "aws-cdk-lib/aws-ssm";
+import { ContextProvider as ContextProviderType } from "aws-cdk-lib/cloud-assembly-schema";
+import { PROVIDER_ERROR_KEY } from "aws-cdk-lib/cx-api";
 import {
   AddStageOpts,
+  CodeBuildStep,
   CodePipeline,
   CodePipelineProps,
   CodePipelineSource,
+  FileSet,
   ShellStep,
   ShellStepProps,
+  StackSteps,
   StageDeployment,
+  Step,
 } from "aws-cdk-lib/pipelines";
 import { NagSuppressions } from "cdk-nag";
 import { Construct } from "constructs";
+import {
+  ChangeSetReviewStep,
+  NotifyingManualApprovalStep,
+  StageApprovalConfig,
+} from "./approval/stage-approval";
+import { CodeScanner, CodeScannerBinding } from "./code_scanner/code-scanner";
 import {
   SonarCodeScanner,
   SonarCodeScannerConfig,
+  SonarQualityGateStep,
 } from "./code_scanner/sonar-code-scanner";
+import {
+  ContainerAssetsConfig,
+  ImageScanStep,
+} from "./container_assets/container-assets";
+import {
+  DriftReport,
+  DriftReportConfig,
+  DriftReportStack,
+  PublishCloudAssemblyStep,
+} from "./drift_report/drift-report";
+import {
+  BRANCH_ENV_VAR,
+  FeatureBranches,
+} from "./feature_branches/feature-branches";
+import {
+  StageIntegrationTest,
+  StageIntegrationTestConfig,
+} from "./integration_test/stage-integration-test";
+import { NagSuppressionRegistry } from "./nag/nag-suppression-registry";
+import { EncryptedTopic } from "./notifications/encrypted-topic";
+import {
+  PipelineNotifications,
+  PipelineNotificationsConfig,
+} from "./notifications/pipeline-notifications";
+import { PDKPipelineSource } from "./pdk-pipeline-source";
+import {
+  PullRequestValidation,
+  PullRequestValidationConfig,
+  PullRequestValidationProps,
+} from "./pull_request/pull-request-validation";
+import {
+  nxAffectedBuild,
+  recordNxAffectedBase,
+} from "./synth/nx-affected-commands";
+import {
+  buildAllCommand,
+  detectPackageManager,
+  installCommands,
+  PackageManager,
+  synthBuildSpec,
+  Toolchain,
+} from "./synth/toolchain";
 
+export * from "./approval/stage-approval";
+export * from "./code_scanner/code-scanner";
 export * from "./code_scanner/sonar-code-scanner";
+export * from "./container_assets/container-assets";
+export * from "./drift_report/drift-report";
+export * from "./feature_branches/feature-branches";
+export * from "./integration_test/stage-integration-test";
+export * from "./nag/nag-suppression-registry";
+export * from "./notifications/encrypted-topic";
+export * from "./notifications/pipeline-notifications";
+export * from "./pdk-pipeline-source";
+export * from "./pull_request/pull-request-validation";
+export { PackageManager, Toolchain } from "./synth/toolchain";
 
 const DEFAULT_BRANCH_NAME = "mainline";
 
+/**
+ * Resolved form of an IAM policy document.
+ */
+interface PolicyDocumentJson {
+  readonly Statement: {
+    readonly Action: string | string[];
+    readonly Resource?: unknown;
+  }[];
+}
+
 /**
  * Properties to configure the PDKPipeline.
  *
@@ -57,8 +167,23 @@ const DEFAULT_BRANCH_NAME = "mainline";
 export interface PDKPipelineProps extends CodePipelineProps {
   /**
    * Name of the CodeCommit repository to create.
+   *
+   * Note: Ignored if a source is provided.
+   *
+   * @default undefined
+   */
+  readonly repositoryName?: string;
+
+  /**
+   * Source of the code to build. Use this to build from an existing CodeCommit
+   * repository, a CodeStar Connection (i.e: GitHub) or S3 instead of creating
+   * a new CodeCommit repository.
+   *
+   * One of source or repositoryName must be provided.
+   *
+   * @default - a CodeCommit repository named repositoryName is created.
    */
-  readonly repositoryName: string;
+  readonly source?: PDKPipelineSource;
 
   /**
    * Output directory for cdk synthesized artifacts i.e: packages/infra/cdk.out.
@@ -80,6 +205,56 @@ export interface PDKPipelineProps extends CodePipelineProps {
    */
   readonly defaultBranchName?: string;
 
+  /**
+   * Package manager used to install the dependencies of the monorepo and execute nx.
+   *
+   * @default - detected from the lock file in the current directory or any of its parents, otherwise PackageManager.YARN.
+   */
+  readonly packageManager?: PackageManager;
+
+  /**
+   * Additional toolchains required to build the monorepo i.e: for monorepos containing Python or Java projects.
+   *
+   * @default []
+   */
+  readonly toolchains?: Toolchain[];
+
+  /**
+   * Only build the packages affected (via nx affected) since the last commit which successfully
+   * completed the pipeline. A full build is performed if no such commit exists.
+   *
+   * Note: Only applies to the default synth commands. The source must provide a full clone of the
+   * repository i.e: codeBuildCloneOutput, which is enabled automatically when repositoryName is used.
+   *
+   * @default false
+   */
+  readonly nxAffected?: boolean;
+
+  /**
+   * Provision an S3 bucket (encrypted with a customer managed KMS key) to use as a remote nx cache
+   * for the synth step, so that builds of unchanged packages are restored from the cache.
+   *
+   * Note: The NxMonorepoProject must be configured with nxConfig.awsRemoteCache, as the bucket name
+   * and region are provided to the synth step via the NX_AWS_BUCKET and NX_AWS_REGION environment variables.
+   *
+   * @default false
+   */
+  readonly nxRemoteCache?: boolean;
+
+  /**
+   * Prefixes of branches which should have their own copy of the pipeline. Whenever a
+   * branch matching one of these prefixes is created, a copy of the pipeline stack (and
+   * any stages it deploys) prefixed with the branch name is deployed. The copy is
+   * destroyed once the branch is deleted.
+   *
+   * Note: Only supported when the source is a CodeCommit repository. Stacks and stages
+   * should be named using PDKPipeline.getBranchPrefix() to avoid conflicts.
+   *
+   * @example ["feature/", "fix/"]
+   * @default undefined
+   */
+  readonly branchNamePrefixes?: string[];
+
   /**
    * Configuration for enabling Sonarqube code scanning on a successful synth.
    *
@@ -87,41 +262,346 @@ export interface PDKPipelineProps extends CodePipelineProps {
    */
   readonly sonarCodeScannerConfig?: SonarCodeScannerConfig;
 
+  /**
+   * Scanners to run against the source and built artifacts on a successful synth i.e: CodeScanner.semgrep().
+   *
+   * Note: only configured for the default branch pipeline.
+   *
+   * @default undefined
+   */
+  readonly codeScanners?: CodeScanner[];
+
+  /**
+   * Configuration for enabling automated builds of pull requests raised against the
+   * defaultBranchName. The build result is posted back to the pull request as a comment
+   * and an approval rule vote.
+   *
+   * Note: Only supported when the source is a CodeCommit repository.
+   *
+   * @default undefined
+   */
+  readonly pullRequestValidationConfig?: PullRequestValidationConfig;
+
+  /**
+   * Configuration for enabling notifications whenever the pipeline execution, synth or
+   * code scanner builds fail.
+   *
+   * @default undefined
+   */
+  readonly notificationsConfig?: PipelineNotificationsConfig;
+
+  /**
+   * Configuration for stages which contain container image assets i.e: registry credentials,
+   * the asset publishing build environment and checking image scan findings prior to deployment.
+   *
+   * @default undefined
+   */
+  readonly containerAssetsConfig?: ContainerAssetsConfig;
+
+  /**
+   * Configuration for enabling a scheduled report of the drift of every stack deployed by the pipeline,
+   * stored within the artifacts bucket.
+   *
+   * @default undefined
+   */
+  readonly driftReportConfig?: DriftReportConfig;
+
+  /**
+   * Whether nag suppressions registered with nagSuppressions which no longer match a finding should
+   * fail synthesis, rather than be reported as warnings.
+   *
+   * @default false
+   */
+  readonly failOnStaleNagSuppressions?: boolean;
+
   /**
    * Possible values for a resource's Removal Policy
    * The removal policy controls what happens to the resource if it stops being managed by CloudFormation.
+   *
+   * Note: Only applies when a CodeCommit repository is created from repositoryName.
    */
   readonly codeCommitRemovalPolicy?: RemovalPolicy;
 }
 
+/**
+ * Properties to configure a stage deployed to a specific account and region.
+ */
+export interface AccountStageProps {
+  /**
+   * Stage to deploy. The account and region of the stage must be explicitly set via its env.
+   */
+  readonly stage: Stage;
+
+  /**
+   * Whether a manual approval is required before the stage is deployed.
+   *
+   * @default false
+   */
+  readonly approval?: boolean;
+
+  /**
+   * Configuration of the manual approval required before the stage is deployed. Implies approval.
+   *
+   * @default undefined
+   */
+  readonly approvalConfig?: StageApprovalConfig;
+
+  /**
+   * Qualifier used when the target environment was bootstrapped.
+   *
+   * @default DefaultStackSynthesizer.DEFAULT_QUALIFIER
+   */
+  readonly bootstrapQualifier?: string;
+
+  /**
+   * Integration tests to run once the stage has been deployed. The stacks of the stage are
+   * rolled back to their previously deployed templates if the tests fail.
+   *
+   * @default undefined
+   */
+  readonly integrationTest?: StageIntegrationTestConfig;
+
+  /**
+   * Additional options to configure the stage deployment with.
+   *
+   * @default undefined
+   */
+  readonly stageOptions?: AddStageOpts;
+}
+
+/**
+ * Properties to determine the branch a pipeline is synthesized for.
+ */
+export interface IsDefaultBranchProps {
+  /**
+   * Branch to trigger the pipeline execution.
+   *
+   * @default mainline
+   */
+  readonly defaultBranchName?: string;
+
+  /**
+   * Prefixes of the branches which pipelines are deployed for, as configured on the PDKPipeline.
+   *
+   * Note: the branch is only taken into account when it matches one of these prefixes.
+   *
+   * @default undefined
+   */
+  readonly branchNamePrefixes?: string[];
+}
+
 /**
  * An extension to CodePipeline which configures sane defaults for a NX Monorepo
  * codebase. In addition to this, it also creates a CodeCommit repository with
- * automated PR builds and approvals.
+ * automated PR builds and approvals unless a different source is provided.
  */
 export class PDKPipeline extends CodePipeline {
-  readonly codeRepository: Repository;
+  /**
+   * Branch name prefixes which match all branches.
+   */
+  public static readonly ALL_BRANCHES = [""];
+
+  /**
+   * Normalizes a branch name so it can be used within stack and construct names.
+   *
+   * @param branchName name of the branch.
+   */
+  public static normalizeBranchName(branchName: string): string {
+    return branchName.replace(/[^a-zA-Z0-9-]/g, "-");
+  }
+
+  /**
+   * Returns true if the pipeline is being synthesized for the default branch.
+   *
+   * The branch is determined via the PDK_PIPELINE_BRANCH environment variable which is set when
+   * a pipeline is synthesized for a feature branch. It is ignored unless feature branches are
+   * enabled via branchNamePrefixes and the branch matches one of them.
+   *
+   * @param props properties containing the default branch name and branch name prefixes.
+   */
+  public static isDefaultBranch(props?: IsDefaultBranchProps): boolean {
+    const branch = process.env[BRANCH_ENV_VAR];
+    return (
+      !branch ||
+      branch === (props?.defaultBranchName || DEFAULT_BRANCH_NAME) ||
+      !props?.branchNamePrefixes?.some((prefix) => branch.startsWith(prefix))
+    );
+  }
+
+  /**
+   * Returns a prefix to apply to stack and stage names so that pipelines synthesized for
+   * feature branches do not conflict with the default branch i.e: feature-abc-.
+   *
+   * Note: returns an empty string for the default branch.
+   *
+   * @param props properties containing the default branch name and branch name prefixes.
+   */
+  public static getBranchPrefix(props?: IsDefaultBranchProps): string {
+    return PDKPipeline.isDefaultBranch(props)
+      ? ""
+      : `${PDKPipeline.normalizeBranchName(process.env[BRANCH_ENV_VAR]!)}-`;
+  }
+
+  /**
+   * CodeCommit repository the pipeline builds from.
+   *
+   * Note: undefined if the source is not a CodeCommit repository.
+   */
+  readonly sourceRepository?: IRepository;
+
+  /**
+   * Pull request validation, if enabled via pullRequestValidationConfig. Created once buildPipeline is called.
+   */
+  public pullRequestValidation?: PullRequestValidation;
+
+  /**
+   * Feature branch pipeline management, if enabled via branchNamePrefixes.
+   */
+  readonly featureBranches?: FeatureBranches;
+
+  /**
+   * Bucket containing the remote nx cache, if enabled via nxRemoteCache.
+   */
+  readonly nxRemoteCacheBucket?: IBucket;
+
+  /**
+   * Nag suppressions applied to the constructs of the pipeline. Any suppression which no longer matches
+   * a finding is reported as a warning at synth time, or fails synthesis if failOnStaleNagSuppressions is set.
+   */
+  readonly nagSuppressions: NagSuppressionRegistry;
+
+  /**
+   * Pipeline notifications, if enabled via notificationsConfig. Created once buildPipeline is called.
+   */
+  public notifications?: PipelineNotifications;
+
+  /**
+   * Bindings of the scanners configured via codeScanners. Created once buildPipeline is called.
+   */
+  public codeScannerBindings?: CodeScannerBinding[];
+
+  /**
+   * Scheduled drift report, if enabled via driftReportConfig. Created once buildPipeline is called.
+   */
+  public driftReport?: DriftReport;
+
+  /**
+   * Sonarqube code scanner, if enabled via sonarCodeScannerConfig. Created once buildPipeline is called.
+   */
+  public sonarCodeScanner?: SonarCodeScanner;
   private readonly sonarCodeScannerConfig?: SonarCodeScannerConfig;
-  private readonly id: string;
+  private readonly pullRequestValidationProps?: PullRequestValidationProps;
+  private readonly codeScanners?: CodeScanner[];
+  private readonly notificationsConfig?: PipelineNotificationsConfig;
+  private readonly containerAssetsConfig?: ContainerAssetsConfig;
+  private readonly driftReportConfig?: DriftReportConfig;
+  private readonly artifactBucket: IBucket;
+  private readonly stageBootstrapQualifiers: Map<Stage, string | undefined>;
+  private readonly nxAffectedBaseParameter?: StringParameter;
+  private readonly sourceInput: CodePipelineSource;
+  private readonly repositoryFileSet: FileSet;
+  private readonly crossAccountKeys: boolean;
+  private approvalNotificationTopic?: EncryptedTopic;
 
   public constructor(scope: Construct, id: string, props: PDKPipelineProps) {
-    const codeRepository = new Repository(scope, "CodeRepository", {
-      repositoryName: props.repositoryName,
-    });
-    codeRepository.applyRemovalPolicy(
-      props.codeCommitRemovalPolicy ?? RemovalPolicy.RETAIN
+    if (!props.source && !props.repositoryName) {
+      throw new Error("One of source or repositoryName must be provided.");
+    }
+
+    const defaultBranchName = props.defaultBranchName || DEFAULT_BRANCH_NAME;
+    const isDefaultBranch = PDKPipeline.isDefaultBranch(props);
+    const branch = isDefaultBranch
+      ? defaultBranchName
+      : process.env[BRANCH_ENV_VAR]!;
+
+    // Feature branch pipelines build from the repository created by the default branch pipeline
+    const defaultSource =
+      props.source ??
+      PDKPipelineSource.codeCommit(props.repositoryName!, {
+        removalPolicy: props.codeCommitRemovalPolicy,
+        codeBuildCloneOutput: props.nxAffected,
+      });
+    const source = isDefaultBranch
+      ? defaultSource
+      : defaultSource.forFeatureBranch();
+    const { input: sourceInput, repository: codeRepository } = source.bind(
+      scope,
+      branch
     );
 
+    if (props.pullRequestValidationConfig && !codeRepository) {
+      throw new Error(
+        "Pull request validation is only supported with a CodeCommit source."
+      );
+    }
+
+    if (props.branchNamePrefixes && !codeRepository) {
+      throw new Error(
+        "Feature branch pipelines are only supported with a CodeCommit source."
+      );
+    }
+
+    // Artifacts must be encrypted with a customer managed key in order to be shared with other accounts.
+    // As S3 cannot deliver access logs to a bucket encrypted with KMS, these are sent to a dedicated bucket.
+    const accessLogsBucket =
+      props.crossAccountKeys || props.nxRemoteCache
+        ? new Bucket(scope, "ArtifactsBucketAccessLogs", {
+            enforceSSL: true,
+            autoDeleteObjects: true,
+            removalPolicy: RemovalPolicy.DESTROY,
+            encryption: BucketEncryption.S3_MANAGED,
+            publicReadAccess: false,
+            blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+          })
+        : undefined;
+    accessLogsBucket &&
+      NagSuppressions.addResourceSuppressions(accessLogsBucket, [
+        {
+          id: "AwsSolutions-S1",
+          reason:
+            "This bucket is the server access logs destination of the ArtifactsBucket and NxRemoteCacheBucket.",
+        },
+      ]);
+
     const artifactBucket = new Bucket(scope, "ArtifactsBucket", {
       enforceSSL: true,
       autoDeleteObjects: true,
       removalPolicy: RemovalPolicy.DESTROY,
-      encryption: BucketEncryption.S3_MANAGED,
       publicReadAccess: false,
       blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
       serverAccessLogsPrefix: "access-logs",
+      ...(props.crossAccountKeys
+        ? {
+            encryption: BucketEncryption.KMS,
+            encryptionKey: new Key(scope, "ArtifactsBucketKey", {
+              enableKeyRotation: true,
+              removalPolicy: RemovalPolicy.DESTROY,
+            }),
+            serverAccessLogsBucket: accessLogsBucket,
+          }
+        : {
+            encryption: BucketEncryption.S3_MANAGED,
+          }),
     });
 
+    const nxRemoteCacheBucket = props.nxRemoteCache
+      ? new Bucket(scope, "NxRemoteCacheBucket", {
+          enforceSSL: true,
+          autoDeleteObjects: true,
+          removalPolicy: RemovalPolicy.DESTROY,
+          encryption: BucketEncryption.KMS,
+          encryptionKey: new Key(scope, "NxRemoteCacheBucketKey", {
+            enableKeyRotation: true,
+            removalPolicy: RemovalPolicy.DESTROY,
+          }),
+          publicReadAccess: false,
+          blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+          serverAccessLogsBucket: accessLogsBucket,
+          serverAccessLogsPrefix: "nx-remote-cache-access-logs",
+          lifecycleRules: [{ expiration: Duration.days(30) }],
+        })
+      : undefined;
+
     const codePipeline = new Pipeline(scope, "CodePipeline", {
       enableKeyRotation: true,
       restartExecutionOnUpdate: true,
@@ -137,44 +617,181 @@ export class PDKPipeline extends CodePipeline {
       ...synthShellStepPartialProps
     } = props.synthShellStepPartialProps || {};
 
+    // The last successful commit is stored per pipeline stack so that feature branches track their own baseline
+    const nxAffectedBaseParameterName = `/${
+      Stack.of(scope).stackName
+    }/${id}/NxAffectedBase`;
+
+    const packageManager =
+      props.packageManager ??
+      detectPackageManager(process.cwd()) ??
+      PackageManager.YARN;
+    const toolchains = props.toolchains || [];
+
     const synthShellStep = new ShellStep("Synth", {
-      input: CodePipelineSource.codeCommit(
-        codeRepository,
-        props.defaultBranchName || DEFAULT_BRANCH_NAME
-      ),
-      installCommands: ["yarn install --frozen-lockfile"],
+      input: sourceInput,
+      installCommands: installCommands(packageManager, toolchains),
       commands:
         commands && commands.length > 0
           ? commands
-          : ["npx nx run-many --target=build --all"],
+          : props.nxAffected
+          ? nxAffectedBuild(
+              packageManager,
+              nxAffectedBaseParameterName,
+              props.primarySynthDirectory
+            )
+          : [buildAllCommand(packageManager)],
       primaryOutputDirectory: props.primarySynthDirectory,
       ...(synthShellStepPartialProps || {}),
+      // Ensure feature branch pipelines continue to synthesize themselves rather than the default branch pipeline
+      env: {
+        ...props.synthShellStepPartialProps?.env,
+        ...(isDefaultBranch ? {} : { [BRANCH_ENV_VAR]: branch }),
+        ...(nxRemoteCacheBucket
+          ? {
+              NX_AWS_BUCKET: nxRemoteCacheBucket.bucketName,
+              NX_AWS_REGION: Stack.of(scope).region,
+            }
+          : {}),
+      },
     });
 
-    synthShellStep.addOutputDirectory(".");
+    const repositoryFileSet = synthShellStep.addOutputDirectory(".");
 
+    // Cache the package manager and toolchain stores within the artifacts bucket between synth builds
+    const toolchainBuildSpec = BuildSpec.fromObject(
+      synthBuildSpec(packageManager, toolchains)
+    );
     const codePipelineProps: CodePipelineProps = {
       codePipeline,
       ...props,
       crossAccountKeys: undefined,
       synth: synthShellStep,
+      synthCodeBuildDefaults: {
+        ...props.synthCodeBuildDefaults,
+        partialBuildSpec: props.synthCodeBuildDefaults?.partialBuildSpec
+          ? mergeBuildSpecs(
+              toolchainBuildSpec,
+              props.synthCodeBuildDefaults.partialBuildSpec
+            )
+          : toolchainBuildSpec,
+        cache:
+          props.synthCodeBuildDefaults?.cache ??
+          Cache.bucket(artifactBucket, { prefix: "synth-cache" }),
+      },
+      dockerCredentials:
+        props.dockerCredentials ??
+        props.containerAssetsConfig?.dockerCredentials,
+      dockerEnabledForSynth:
+        props.dockerEnabledForSynth ??
+        props.containerAssetsConfig?.dockerEnabledForSynth,
+      assetPublishingCodeBuildDefaults: {
+        ...props.assetPublishingCodeBuildDefaults,
+        buildEnvironment:
+          props.assetPublishingCodeBuildDefaults?.buildEnvironment ??
+          props.containerAssetsConfig?.buildEnvironment,
+      },
     };
 
     super(scope, id, codePipelineProps);
 
-    this.id = id;
-    this.codeRepository = codeRepository;
-    this.sonarCodeScannerConfig = props.sonarCodeScannerConfig
-      ? {
-          cdkOutDir: props.primarySynthDirectory,
-          ...props.sonarCodeScannerConfig,
-        }
-      : undefined;
-
-    new CfnOutput(scope, "CodeRepositoryGRCUrl", {
-      exportName: "CodeRepositoryGRCUrl",
-      value: this.codeRepository.repositoryCloneUrlGrc,
+    this.crossAccountKeys = props.crossAccountKeys ?? false;
+    this.sourceRepository = codeRepository;
+    this.nxRemoteCacheBucket = nxRemoteCacheBucket;
+    this.nagSuppressions = new NagSuppressionRegistry(this, "NagSuppressions", {
+      failOnStaleSuppressions: props.failOnStaleNagSuppressions,
     });
+    this.notificationsConfig = props.notificationsConfig;
+    this.containerAssetsConfig = props.containerAssetsConfig;
+    this.driftReportConfig = props.driftReportConfig;
+    this.artifactBucket = artifactBucket;
+    this.stageBootstrapQualifiers = new Map();
+    this.sourceInput = sourceInput;
+    this.repositoryFileSet = repositoryFileSet;
+    // The value is overwritten by the pipeline once all stages have deployed, until which a full build is performed
+    this.nxAffectedBaseParameter =
+      props.nxAffected && !(commands && commands.length > 0)
+        ? new StringParameter(this, "NxAffectedBase", {
+            parameterName: nxAffectedBaseParameterName,
+            description:
+              "Last commit to successfully complete the pipeline, against which nx affected builds compare.",
+            stringValue: "none",
+          })
+        : undefined;
+    this.sonarCodeScannerConfig =
+      isDefaultBranch && props.sonarCodeScannerConfig
+        ? {
+            cdkOutDir: props.primarySynthDirectory,
+            branchName: defaultBranchName,
+            ...props.sonarCodeScannerConfig,
+          }
+        : undefined;
+
+    this.codeScanners = isDefaultBranch ? props.codeScanners : undefined;
+    this.validateCodeScanners();
+
+    // Pull request validation, feature branches and exports are managed by the default branch pipeline only
+    this.pullRequestValidationProps =
+      isDefaultBranch && props.pullRequestValidationConfig
+        ? {
+            repository: codeRepository!,
+            branch,
+            installCommands: synthShellStep.installCommands,
+            commands: synthShellStep.commands,
+            env: synthShellStep.env,
+            ...props.pullRequestValidationConfig,
+            // The default nx affected commands read the baseline of the default branch pipeline
+            rolePolicyStatements: [
+              ...(this.nxAffectedBaseParameter &&
+              !props.pullRequestValidationConfig.commands
+                ? [
+                    new PolicyStatement({
+                      actions: ["ssm:GetParameter"],
+                      effect: Effect.ALLOW,
+                      resources: [this.nxAffectedBaseParameter.parameterArn],
+                    }),
+                  ]
+                : []),
+              ...(props.pullRequestValidationConfig.rolePolicyStatements || []),
+            ],
+          }
+        : undefined;
+
+    this.featureBranches =
+      isDefaultBranch && props.branchNamePrefixes
+        ? new FeatureBranches(this, "FeatureBranches", {
+            repository: codeRepository!,
+            defaultBranchName,
+            branchNamePrefixes: props.branchNamePrefixes,
+            cdkOutDir: props.primarySynthDirectory,
+            installCommands: synthShellStep.installCommands,
+            commands: synthShellStep.commands,
+            env: synthShellStep.env,
+          })
+        : undefined;
+
+    isDefaultBranch &&
+      this.sourceRepository &&
+      new CfnOutput(scope, "CodeRepositoryGRCUrl", {
+        exportName: "CodeRepositoryGRCUrl",
+        value: this.sourceRepository.repositoryCloneUrlGrc,
+      });
+  }
+
+  /**
+   * CodeCommit repository the pipeline builds from.
+   *
+   * @deprecated use sourceRepository, which is undefined rather than throwing for non CodeCommit sources.
+   * @throws if the pipeline source is not a CodeCommit repository.
+   */
+  public get codeRepository(): IRepository {
+    if (!this.sourceRepository) {
+      throw new Error(
+        "The pipeline source is not a CodeCommit repository, use sourceRepository instead."
+      );
+    }
+
+    return this.sourceRepository;
   }
 
   /**
@@ -185,88 +802,583 @@ export class PDKPipeline extends CodePipeline {
     Aspects.of(stage.node.root).all.forEach((aspect) =>
       Aspects.of(stage).add(aspect)
     );
+
+    this.stageBootstrapQualifiers.has(stage) ||
+      this.stageBootstrapQualifiers.set(stage, undefined);
+
     return super.addStage(stage, options);
   }
 
+  /**
+   * Adds a stage which deploys to the account and region of the provided stage.
+   *
+   * When the account differs from the pipeline account, synthesis fails if the target environment
+   * has not been bootstrapped with a trust to the pipeline account, and a step is added prior to
+   * deployment which verifies the trust is still in place.
+   *
+   * @param props properties of the stage to add.
+   */
+  addAccountStage(props: AccountStageProps): StageDeployment {
+    const stack = Stack.of(this);
+    const { stage } = props;
+
+    if (Token.isUnresolved(stack.account)) {
+      throw new Error(
+        `Unable to add account stage ${stage.stageName} as the account of the pipeline stack ${stack.stackName} is not explicitly set.`
+      );
+    }
+
+    if (
+      !stage.account ||
+      Token.isUnresolved(stage.account) ||
+      !stage.region ||
+      Token.isUnresolved(stage.region)
+    ) {
+      throw new Error(
+        `Unable to add account stage ${stage.stageName} as its account and region are not explicitly set.`
+      );
+    }
+
+    const isCrossAccount = stage.account !== stack.account;
+    if (isCrossAccount && !this.crossAccountKeys) {
+      throw new Error(
+        `Unable to add account stage ${stage.stageName} as deploying to account ${stage.account} from ${stack.account} requires crossAccountKeys to be enabled.`
+      );
+    }
+
+    const qualifier =
+      props.bootstrapQualifier ?? DefaultStackSynthesizer.DEFAULT_QUALIFIER;
+    const approvalConfig =
+      props.approvalConfig ?? (props.approval ? {} : undefined);
+
+    isCrossAccount &&
+      stage.node
+        .findAll()
+        .filter(Stack.isStack)
+        .filter((stageStack) => !stageStack.nested)
+        .forEach((stageStack) =>
+          this.validateBootstrap(stageStack, stack.account, qualifier)
+        );
+
+    const validationStep = isCrossAccount
+      ? this.createBootstrapValidationStep(
+          stage.account,
+          stage.region,
+          stack.account,
+          qualifier
+        )
+      : undefined;
+    const approvalSteps = approvalConfig
+      ? this.createApprovalSteps(stage, approvalConfig, qualifier)
+      : [];
+    const approvalStep = approvalSteps[approvalSteps.length - 1];
+
+    const integrationTest = props.integrationTest
+      ? new StageIntegrationTest(this, stage, {
+          input: this.repositoryFileSet,
+          bootstrapQualifier: qualifier,
+          ...props.integrationTest,
+        })
+      : undefined;
+
+    // Only review and request approval once the target environment is known to be deployable
+    validationStep &&
+      approvalSteps.forEach((step) => step.addStepDependency(validationStep));
+
+    // Capture the templates to roll back to as late as possible prior to deploying
+    approvalStep &&
+      integrationTest?.pre.forEach((step) =>
+        step.addStepDependency(approvalStep)
+      );
+
+    const pre: Step[] = [
+      ...(validationStep ? [validationStep] : []),
+      ...approvalSteps,
+      ...(props.stageOptions?.pre || []),
+      ...(integrationTest?.pre || []),
+    ];
+    const post: Step[] = [
+      ...(integrationTest?.post || []),
+      ...(props.stageOptions?.post || []),
+    ];
+
+    this.stageBootstrapQualifiers.set(stage, qualifier);
+
+    return this.addStage(stage, {
+      ...props.stageOptions,
+      pre,
+      post,
+      stackSteps: [
+        ...(props.stageOptions?.stackSteps || []),
+        ...(this.containerAssetsConfig?.imageScanOnPush
+          ? this.createImageScanStackSteps(stage, qualifier)
+          : []),
+      ],
+    });
+  }
+
+  /**
+   * Ensures each scanner is configured once, as the resources and reports of a scanner are named after it.
+   *
+   * @private
+   */
+  private validateCodeScanners() {
+    const names = (this.codeScanners || []).map((scanner) => scanner.name);
+    names
+      .filter((name, index) => names.indexOf(name) !== index)
+      .forEach((name) => {
+        throw new Error(
+          `The ${name} code scanner is configured more than once, each scanner may only be configured once.`
+        );
+      });
+
+    if (this.sonarCodeScannerConfig && names.includes("Sonarqube")) {
+      throw new Error(
+        "Sonarqube is configured as both a code scanner and via sonarCodeScannerConfig, only one may be used."
+      );
+    }
+  }
+
+  /**
+   * Creates the steps which request a manual approval prior to deploying a stage, preceded by a review of
+   * its change sets if changeSetReview is enabled. The steps are intended to be passed as the pre steps of
+   * addStage, i.e: `pipeline.addStage(stage, { pre: pipeline.createApprovalSteps(stage) })`.
+   *
+   * Stacks without an explicit environment are reviewed in the account and region of the pipeline.
+   *
+   * @param stage stage to request approval for.
+   * @param config configuration of the approval.
+   * @param bootstrapQualifier qualifier used when the target environment was bootstrapped.
+   * @returns the review step, if enabled, followed by the approval step.
+   */
+  createApprovalSteps(
+    stage: Stage,
+    config?: StageApprovalConfig,
+    bootstrapQualifier?: string
+  ): Step[] {
+    const qualifier =
+      bootstrapQualifier ?? DefaultStackSynthesizer.DEFAULT_QUALIFIER;
+    const partition = Stack.of(this).partition;
+    const account =
+      stage.account && !Token.isUnresolved(stage.account)
+        ? stage.account
+        : Aws.ACCOUNT_ID;
+    const region =
+      stage.region && !Token.isUnresolved(stage.region)
+        ? stage.region
+        : Aws.REGION;
+
+    // The summary of the review follows the comment and a ": " separator in the approval request
+    const maxLength =
+      NotifyingManualApprovalStep.MAX_COMMENT_LENGTH -
+      (config?.changeSetReview ? 2 : 0);
+    const comment = (
+      config?.comment ?? `Approve deployment of ${stage.stageName}`
+    ).substring(0, maxLength);
+    const reviewStep = config?.changeSetReview
+      ? new ChangeSetReviewStep("ChangeSetReview", {
+          input: this.cloudAssemblyFileSet,
+          stageName: stage.stageName,
+          lookupRoleArn: `arn:${partition}:iam::${account}:role/cdk-${qualifier}-lookup-role-${account}-${region}`,
+          summaryMaxLength: maxLength - comment.length,
+        })
+      : undefined;
+    const approvalStep = new NotifyingManualApprovalStep("Approval", {
+      notificationTopic:
+        config?.notificationTopic ??
+        this.getApprovalNotificationTopic(config?.notificationEmails),
+      comment: reviewStep ? `${comment}: ${reviewStep.summary}` : comment,
+      externalEntityLink: reviewStep?.buildUrl,
+    });
+    reviewStep && approvalStep.addStepDependency(reviewStep);
+
+    return [...(reviewStep ? [reviewStep] : []), approvalStep];
+  }
+
+  /**
+   * Creates a step for each stack containing container image assets which checks the scan findings of the
+   * images once published and prior to the change set being executed.
+   *
+   * @private
+   */
+  private createImageScanStackSteps(
+    stage: Stage,
+    qualifier: string
+  ): StackSteps[] {
+    const partition = Stack.of(this).partition;
+
+    return stage.node
+      .findAll()
+      .filter(Stack.isStack)
+      .map((stack) => ({
+        stack,
+        images: stack.node
+          .findAll()
+          .filter(
+            (c): c is DockerImageAsset =>
+              c instanceof DockerImageAsset && Stack.of(c) === stack
+          )
+          .map((asset) => ({
+            repositoryName: stack.resolve(asset.repository.repositoryName),
+            // The cdk stack synthesizers tag images with the hash of the asset
+            imageTag: asset.assetHash,
+          })),
+      }))
+      .filter(({ images }) => images.length > 0)
+      .map(({ stack, images }) => ({
+        stack,
+        changeSet: [
+          new ImageScanStep("ImageScan", {
+            images,
+            region: stack.region,
+            lookupRoleArn: `arn:${partition}:iam::${stack.account}:role/cdk-${qualifier}-lookup-role-${stack.account}-${stack.region}`,
+            failureThreshold:
+              this.containerAssetsConfig?.imageScanFailureThreshold,
+          }),
+        ],
+      }));
+  }
+
+  /**
+   * Returns the topic notified of pending approvals, creating it if it does not yet exist.
+   *
+   * @param emails email addresses to subscribe to the topic.
+   * @private
+   */
+  private getApprovalNotificationTopic(emails?: string[]): EncryptedTopic {
+    if (!this.approvalNotificationTopic) {
+      this.approvalNotificationTopic = new EncryptedTopic(
+        this,
+        "ApprovalNotificationTopic"
+      );
+    }
+
+    const topic = this.approvalNotificationTopic;
+    (emails || []).forEach(
+      (email) =>
+        !topic.node.tryFindChild(email) &&
+        topic.addSubscription(new EmailSubscription(email))
+    );
+
+    return topic;
+  }
+
+  /**
+   * Verifies the environment of a stack has been bootstrapped with a trust to the pipeline account by
+   * looking up the version of its bootstrap stack via the cdk bootstrap lookup role of the stack.
+   *
+   * The lookup is performed by the cdk cli and cached in cdk.context.json, so synthesis fails with
+   * the command to run if the lookup role could not be assumed or the bootstrap stack does not exist.
+   *
+   * @param stack stack deployed by the pipeline.
+   * @param pipelineAccount account containing the pipeline.
+   * @param qualifier qualifier of the cdk bootstrap resources.
+   * @private
+   */
+  private validateBootstrap(
+    stack: Stack,
+    pipelineAccount: string,
+    qualifier: string
+  ): void {
+    const options = {
+      provider: ContextProviderType.SSM_PARAMETER_PROVIDER,
+      props: { parameterName: `/cdk-bootstrap/${qualifier}/version` },
+    };
+
+    const value = stack.node.tryGetContext(
+      ContextProvider.getKey(stack, options).key
+    );
+    if (value && typeof value === "object" && PROVIDER_ERROR_KEY in value) {
+      const environment = `aws://${stack.account}/${stack.region}`;
+      throw new Error(
+        `Environment ${environment} is not bootstrapped with a trust to the pipeline account ${pipelineAccount}. Run: npx cdk bootstrap ${environment} --trust ${pipelineAccount} --cloudformation-execution-policies <policy-arn> (${value[PROVIDER_ERROR_KEY]})`
+      );
+    }
+
+    ContextProvider.getValue(stack, {
+      ...options,
+      dummyValue: "dummy-value-for-bootstrap-version",
+    });
+  }
+
+  /**
+   * Creates a step which verifies the target environment still trusts the pipeline account by
+   * assuming the cdk bootstrap deploy role.
+   *
+   * @param account target account.
+   * @param region target region.
+   * @param pipelineAccount account containing the pipeline.
+   * @param qualifier qualifier of the cdk bootstrap resources.
+   * @private
+   */
+  private createBootstrapValidationStep(
+    account: string,
+    region: string,
+    pipelineAccount: string,
+    qualifier: string
+  ): Step {
+    const deployRoleArn = `arn:${
+      Stack.of(this).partition
+    }:iam::${account}:role/cdk-${qualifier}-deploy-role-${account}-${region}`;
+
+    return new CodeBuildStep("BootstrapValidation", {
+      commands: [
+        `aws sts assume-role --role-arn ${deployRoleArn} --role-session-name BootstrapValidation > /dev/null || (echo "Environment aws://${account}/${region} is not bootstrapped with a trust to the pipeline account ${pipelineAccount}. Run: npx cdk bootstrap aws://${account}/${region} --trust ${pipelineAccount} --cloudformation-execution-policies <policy-arn>" && exit 1)`,
+      ],
+      rolePolicyStatements: [
+        new PolicyStatement({
+          actions: ["sts:AssumeRole"],
+          effect: Effect.ALLOW,
+          resources: [deployRoleArn],
+        }),
+      ],
+    });
+  }
+
+  /**
+   * Creates a step which stores the commit which successfully completed the pipeline as the
+   * baseline of subsequent nx affected builds.
+   *
+   * @private
+   */
+  private createRecordNxAffectedBaseStep(parameter: StringParameter): Step {
+    return new CodeBuildStep("RecordNxAffectedBase", {
+      input: this.sourceInput,
+      commands: [recordNxAffectedBase(parameter.parameterName)],
+      rolePolicyStatements: [
+        new PolicyStatement({
+          actions: ["ssm:PutParameter"],
+          effect: Effect.ALLOW,
+          resources: [parameter.parameterArn],
+        }),
+      ],
+    });
+  }
+
   buildPipeline() {
+    // Record the baseline once all stages have deployed successfully
+    this.nxAffectedBaseParameter &&
+      this.addWave("NxAffectedBase", {
+        post: [
+          this.createRecordNxAffectedBaseStep(this.nxAffectedBaseParameter),
+        ],
+      });
+
+    // Publish the templates once all stages have deployed so the report reflects what was deployed
+    this.driftReportConfig &&
+      this.addWave("DriftReport", {
+        post: [
+          new PublishCloudAssemblyStep("PublishCloudAssembly", {
+            input: this.cloudAssemblyFileSet,
+            bucket: this.artifactBucket,
+            reportPrefix: this.driftReportConfig.reportPrefix,
+          }),
+        ],
+      });
+
+    // Block the deployment of all stages on the quality gate. The scanner, which owns the token, is not
+    // dependent on the synth build in this mode so is created prior to building the pipeline
+    if (this.sonarCodeScannerConfig?.qualityGateBlocking) {
+      this.sonarCodeScanner = new SonarCodeScanner(
+        this,
+        "SonarCodeScanner",
+        this.sonarCodeScannerConfig
+      );
+
+      // Waves are deployed in the order they are added, so gating the first blocks the deployment of all stages
+      const firstWave = this.waves[0] ?? this.addWave("CodeScan");
+      firstWave.addPre(
+        new SonarQualityGateStep("SonarQualityGate", {
+          input: this.cloudAssemblyFileSet,
+          source: this.sourceInput,
+          built: this.repositoryFileSet,
+          scanner: this.sonarCodeScanner,
+          artifactBucketArn: this.artifactBucket.bucketArn,
+          artifactBucketKeyArn: this.artifactBucket.encryptionKey?.keyArn,
+          ...this.sonarCodeScannerConfig,
+        })
+      );
+    }
+
     super.buildPipeline();
 
-    this.sonarCodeScannerConfig &&
-      new SonarCodeScanner(this, "SonarCodeScanner", {
+    this.nxRemoteCacheBucket?.grantReadWrite(this.synthProject);
+    this.nxAffectedBaseParameter?.grantRead(this.synthProject);
+
+    this.sonarCodeScanner =
+      this.sonarCodeScanner ??
+      (this.sonarCodeScannerConfig
+        ? new SonarCodeScanner(this, "SonarCodeScanner", {
+            artifactBucketArn: this.pipeline.artifactBucket.bucketArn,
+            artifactBucketKeyArn:
+              this.pipeline.artifactBucket.encryptionKey?.keyArn,
+            synthBuildArn: this.synthProject.projectArn,
+            ...this.sonarCodeScannerConfig,
+          })
+        : undefined);
+
+    this.codeScannerBindings = this.codeScanners?.map((scanner) =>
+      scanner.bind(this, {
         artifactBucketArn: this.pipeline.artifactBucket.bucketArn,
         artifactBucketKeyArn:
           this.pipeline.artifactBucket.encryptionKey?.keyArn,
         synthBuildArn: this.synthProject.projectArn,
-        ...this.sonarCodeScannerConfig,
-      });
+      })
+    );
+
+    // Created after the code scanner so that pull requests can be scanned with its token
+    this.pullRequestValidation = this.pullRequestValidationProps
+      ? new PullRequestValidation(this, "PullRequestValidation", {
+          ...this.pullRequestValidationProps,
+          sonarqubeScan:
+            this.sonarCodeScanner &&
+            this.sonarCodeScannerConfig?.pullRequestScanEnabled
+              ? {
+                  sonarqubeEndpoint:
+                    this.sonarCodeScannerConfig.sonarqubeEndpoint,
+                  sonarqubeProjectName:
+                    this.sonarCodeScannerConfig.sonarqubeProjectName,
+                  sonarqubeToken: this.sonarCodeScanner.sonarqubeToken,
+                  excludeGlobsForScan:
+                    this.sonarCodeScannerConfig.excludeGlobsForScan,
+                  languageReports: this.sonarCodeScannerConfig.languageReports,
+                }
+              : undefined,
+        })
+      : undefined;
+
+    this.notifications = this.notificationsConfig
+      ? new PipelineNotifications(this, "Notifications", {
+          pipeline: this.pipeline,
+          synthProject: this.synthProject,
+          codeScannerProject: this.sonarCodeScanner?.validationProject,
+          ...this.notificationsConfig,
+        })
+      : undefined;
 
+    this.driftReport = this.driftReportConfig
+      ? new DriftReport(this, "DriftReport", {
+          bucket: this.pipeline.artifactBucket,
+          stacks: this.getDriftReportStacks(),
+          ...this.driftReportConfig,
+        })
+      : undefined;
+
+    this.scopeCrossRegionKeyPermissions();
     this.suppressCDKViolations();
   }
 
-  suppressCDKViolations() {
+  /**
+   * Scopes the access of the pipeline role to the replication bucket keys of other regions, which CDK grants on
+   * any resource as the keys are only referenced by alias, to the keys of the account and region of each support stack.
+   *
+   * @private
+   */
+  private scopeCrossRegionKeyPermissions(): void {
     const stack = Stack.of(this);
+    const keyArns = Object.values(this.pipeline.crossRegionSupport)
+      .filter((support) => support.stack !== stack)
+      .map(
+        (support) =>
+          `arn:${stack.partition}:kms:${support.stack.region}:${support.stack.account}:key/*`
+      );
+    const policy = this.pipeline.role.node.tryFindChild("DefaultPolicy");
+    if (keyArns.length === 0 || !(policy instanceof Policy)) {
+      return;
+    }
 
-    PDKNag.addResourceSuppressionsByPathNoThrow(
-      stack,
-      `${PDKNag.getStackPrefix(stack)}CodePipeline/Role/DefaultPolicy/Resource`,
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "Actions contain wildcards which are valid for CodePipeline as all of these operations are required.",
-          appliesTo: [
-            {
-              regex: "/^Action::s3:.*$/g",
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to any and all artifacts in the ArtifactsBucket.",
-          appliesTo: [
-            {
-              regex: "/^Resource::<ArtifactsBucket.*.Arn>/\\*$/g",
-            },
-          ],
-        },
-      ]
+    (policy.node.defaultChild as CfnPolicy).policyDocument = Lazy.any({
+      produce: () => {
+        const document: PolicyDocumentJson = stack.resolve(policy.document);
+        return {
+          ...document,
+          Statement: document.Statement.map((statement) =>
+            statement.Resource === "*" &&
+            [statement.Action]
+              .flat()
+              .every((action) => action.startsWith("kms:"))
+              ? { ...statement, Resource: keyArns }
+              : statement
+          ),
+        };
+      },
+    });
+  }
+
+  /**
+   * Returns the stacks deployed by each stage of the pipeline.
+   *
+   * @private
+   */
+  private getDriftReportStacks(): DriftReportStack[] {
+    const pipelineStack = Stack.of(this);
+
+    return [...this.stageBootstrapQualifiers.entries()].flatMap(
+      ([stage, bootstrapQualifier]) => {
+        const qualifier =
+          bootstrapQualifier ??
+          this.driftReportConfig?.bootstrapQualifier ??
+          DefaultStackSynthesizer.DEFAULT_QUALIFIER;
+        const assemblyDir = path.relative(
+          (stage.node.root as Stage).outdir,
+          stage.outdir
+        );
+
+        // Stacks without an explicit environment are deployed to the environment of the pipeline
+        return stage.node
+          .findAll()
+          .filter(Stack.isStack)
+          .filter((stack) => !stack.nested)
+          .map((stack) => {
+            const account = Token.isUnresolved(stack.account)
+              ? pipelineStack.account
+              : stack.account;
+            const region = Token.isUnresolved(stack.region)
+              ? pipelineStack.region
+              : stack.region;
+            return {
+              stackName: stack.stackName,
+              artifactId: stack.artifactId,
+              account,
+              region,
+              templatePath: path.join(assemblyDir, stack.templateFile),
+              lookupRoleArn: `arn:${pipelineStack.partition}:iam::${account}:role/cdk-${qualifier}-lookup-role-${account}-${region}`,
+            };
+          });
+      }
     );
+  }
 
-    PDKNag.addResourceSuppressionsByPathNoThrow(
-      stack,
-      `${PDKNag.getStackPrefix(
-        stack
-      )}CodePipeline/Source/CodeCommit/CodePipelineActionRole/DefaultPolicy/Resource`,
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "Actions contain wildcards which are valid for CodePipeline as all of these operations are required.",
-          appliesTo: [
-            {
-              regex: "/^Action::s3:.*$/g",
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to any and all artifacts in the ArtifactsBucket.",
-          appliesTo: [
-            {
-              regex: "/^Resource::<ArtifactsBucket.*.Arn>/\\*$/g",
-            },
-          ],
-        },
-      ]
+  /**
+   * Registers the suppressions required by the constructs created by the pipeline. Suppressions are computed
+   * from the constructs themselves, so any stage, step or asset added to the pipeline is covered.
+   */
+  suppressCDKViolations() {
+    const stack = Stack.of(this);
+    const artifactBucket = this.pipeline.artifactBucket;
+
+    // Projects of the synth, self mutation and stage steps, excluding asset projects which share a role
+    const codeBuildProjects = [
+      this.pipeline,
+      this.node.tryFindChild("UpdatePipeline"),
+    ]
+      .flatMap((scope) => scope?.node.findAll() || [])
+      .filter((c): c is Project => c instanceof Project)
+      .filter((project) => project.role?.node.scope === project);
+
+    // Source actions are named after the source type i.e: CodeCommit, owner_repo, etc.
+    const sourceActionRoles = (
+      this.pipeline.node.tryFindChild("Source")?.node.findAll() || []
+    ).filter(
+      (c) => c instanceof Role && c.node.id === "CodePipelineActionRole"
     );
 
-    PDKNag.addResourceSuppressionsByPathNoThrow(
-      stack,
-      `${PDKNag.getStackPrefix(
-        stack
-      )}CodePipeline/Build/Synth/CdkBuildProject/Role/DefaultPolicy/Resource`,
+    this.nagSuppressions.addSuppressions(
+      [
+        this.pipeline.role,
+        ...sourceActionRoles,
+        ...codeBuildProjects.map((project) => project.role!),
+      ],
       [
         {
           id: "AwsSolutions-IAM5",
@@ -288,208 +1400,256 @@ export class PDKPipeline extends CodePipeline {
             },
           ],
         },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to manage logs and streams whose names are dynamically determined.",
-          appliesTo: [
-            {
-              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
-                stack
-              )}:logs:${PDKNag.getStackRegionRegex(
-                stack
-              )}:${PDKNag.getStackAccountRegex(
-                stack
-              )}:log-group:/aws/codebuild/<CodePipelineBuildSynthCdkBuildProject.*>:\\*$/g`,
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to create report groups that are dynamically determined.",
-          appliesTo: [
-            {
-              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
-                stack
-              )}:codebuild:${PDKNag.getStackRegionRegex(
-                stack
-              )}:${PDKNag.getStackAccountRegex(
-                stack
-              )}:report-group/<CodePipelineBuildSynthCdkBuildProject.*>-\\*$/g`,
-            },
-          ],
-        },
+        ...(artifactBucket.encryptionKey
+          ? [
+              {
+                id: "AwsSolutions-IAM5",
+                reason:
+                  "Actions contain wildcards which are valid for CodePipeline to encrypt and decrypt artifacts with the ArtifactsBucket key.",
+                appliesTo: [
+                  {
+                    regex: "/^Action::kms:(GenerateDataKey|ReEncrypt)\\*$/g",
+                  },
+                ],
+              },
+            ]
+          : []),
       ]
     );
 
-    PDKNag.addResourceSuppressionsByPathNoThrow(
-      stack,
-      `${PDKNag.getStackPrefix(stack)}${
-        this.id
-      }/UpdatePipeline/SelfMutation/Role/DefaultPolicy/Resource`,
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to manage logs and streams whose names are dynamically determined.",
-          appliesTo: [
-            {
-              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
-                stack
-              )}:logs:${PDKNag.getStackRegionRegex(
-                stack
-              )}:${PDKNag.getStackAccountRegex(
-                stack
-              )}:log-group:/aws/codebuild/<${
-                this.id
-              }UpdatePipelineSelfMutation.*>:\\*$/g`,
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to create report groups that are dynamically determined.",
-          appliesTo: [
-            {
-              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
-                stack
-              )}:codebuild:${PDKNag.getStackRegionRegex(
-                stack
-              )}:${PDKNag.getStackAccountRegex(stack)}:report-group/<${
-                this.id
-              }UpdatePipelineSelfMutation.*>-\\*$/g`,
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to assume a role from within the current account in order to deploy.",
-          appliesTo: [
-            {
-              regex: `/^Resource::arn:\\*:iam::${PDKNag.getStackAccountRegex(
-                stack
-              )}:role/\\*$/g`,
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to any and all artifacts in the ArtifactsBucket.",
-          appliesTo: [
+    // Log groups and report groups are named after the project
+    codeBuildProjects.forEach((project) => {
+      const projectLogicalId = stack.resolve(
+        (project.node.defaultChild as CfnResource).logicalId
+      );
+
+      this.nagSuppressions.addSuppressions(
+        [project.role!],
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "CodePipeline requires access to manage logs and streams whose names are dynamically determined.",
+            appliesTo: [
+              {
+                regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                  stack
+                )}:logs:${PDKNag.getStackRegionRegex(
+                  stack
+                )}:${PDKNag.getStackAccountRegex(
+                  stack
+                )}:log-group:/aws/codebuild/<${projectLogicalId}>:\\*$/g`,
+              },
+            ],
+          },
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "CodePipeline requires access to create report groups that are dynamically determined.",
+            appliesTo: [
+              {
+                regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                  stack
+                )}:codebuild:${PDKNag.getStackRegionRegex(
+                  stack
+                )}:${PDKNag.getStackAccountRegex(
+                  stack
+                )}:report-group/<${projectLogicalId}>-\\*$/g`,
+              },
+            ],
+          },
+        ]
+      );
+    });
+
+    // Stages deployed to another region replicate artifacts via a bucket in a support stack of that region
+    Object.values(this.pipeline.crossRegionSupport)
+      .filter((support) => support.stack !== stack)
+      .forEach((support) => {
+        this.nagSuppressions.addSuppressions(
+          [this.pipeline.role],
+          [
             {
-              regex: "/^Resource::<ArtifactsBucket.*.Arn>/\\*$/g",
+              id: "AwsSolutions-IAM5",
+              reason: `CodePipeline requires access to any and all artifacts in the replication bucket of ${support.stack.region}.`,
+              appliesTo: [
+                {
+                  regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                    stack
+                  )}:s3:::${stack.resolve(
+                    support.replicationBucket.bucketName
+                  )}/\\*$/g`,
+                },
+              ],
             },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to list all buckets and stacks.",
-          appliesTo: [
             {
-              regex: "/^Resource::\\*$/g",
+              id: "AwsSolutions-IAM5",
+              reason: `The replication bucket key of ${support.stack.region} can only be referenced by alias, which cannot be used to scope key permissions.`,
+              appliesTo: [
+                {
+                  regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                    stack
+                  )}:kms:${support.stack.region}:${
+                    support.stack.account
+                  }:key/\\*$/g`,
+                },
+              ],
             },
-          ],
-        },
-      ]
+          ]
+        );
+
+        NagSuppressions.addResourceSuppressions(support.replicationBucket, [
+          {
+            id: "AwsSolutions-S1",
+            reason:
+              "The replication bucket is created by CodePipeline and only holds copies of the pipeline artifacts.",
+          },
+        ]);
+      });
+
+    const sonarQualityGateProject = codeBuildProjects.find(
+      (project) => project.node.id === "SonarQualityGate"
     );
+    sonarQualityGateProject &&
+      this.nagSuppressions.addSuppressions(
+        [sonarQualityGateProject.role!],
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "The Sonarqube quality gate step requires its reports to be archived under the code scan prefix of the ArtifactsBucket.",
+            appliesTo: [
+              {
+                regex:
+                  "/^Resource::<ArtifactsBucket.*.Arn>/code-scans/sonarqube/\\*$/g",
+              },
+            ],
+          },
+        ]
+      );
 
-    PDKNag.addResourceSuppressionsByPathNoThrow(
-      stack,
-      `${PDKNag.getStackPrefix(stack)}${
-        this.id
-      }/UpdatePipeline/SelfMutation/Role/DefaultPolicy/Resource`,
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "Actions contain wildcards which are valid for CodePipeline as all of these operations are required.",
-          appliesTo: [
-            {
-              regex: "/^Action::s3:.*$/g",
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to manage logs and streams whose names are dynamically determined.",
-          appliesTo: [
-            {
-              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
-                stack
-              )}:logs:${PDKNag.getStackRegionRegex(stack)}:(<AWS::AccountId>|${
-                stack.account
-              }):log-group:/aws/codebuild/<${
-                this.id
-              }UpdatePipelineSelfMutation.*>:\\*$/g`,
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to create report groups that are dynamically determined.",
-          appliesTo: [
-            {
-              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
-                stack
-              )}:codebuild:${PDKNag.getStackRegionRegex(
-                stack
-              )}:${PDKNag.getStackAccountRegex(stack)}:report-group/<${
-                this.id
-              }UpdatePipelineSelfMutation.*>-\\*$/g`,
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to assume a role from within the current account in order to deploy.",
-          appliesTo: [
-            {
-              regex: `/^Resource::arn:\\*:iam::${PDKNag.getStackAccountRegex(
-                stack
-              )}:role/\\*$/g`,
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to any and all artifacts in the ArtifactsBucket.",
-          appliesTo: [
-            {
-              regex: "/^Resource::<ArtifactsBucket.*.Arn>/\\*$/g",
-            },
-          ],
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "CodePipeline requires access to list all buckets and stacks.",
-          appliesTo: [
-            {
-              regex: "/^Resource::\\*$/g",
-            },
-          ],
-        },
-      ]
+    const publishCloudAssemblyProject = codeBuildProjects.find(
+      (project) => project.node.id === "PublishCloudAssembly"
     );
+    publishCloudAssemblyProject &&
+      this.nagSuppressions.addSuppressions(
+        [publishCloudAssemblyProject.role!],
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "The drift report requires the synthesized templates to be published under the report prefix of the ArtifactsBucket.",
+            appliesTo: [
+              {
+                regex: `/^Resource::<ArtifactsBucket.*.Arn>/${
+                  this.driftReportConfig?.reportPrefix ?? "drift-reports"
+                }/cloud-assembly/\\*$/g`,
+              },
+            ],
+          },
+        ]
+      );
+
+    this.nxRemoteCacheBucket &&
+      this.nagSuppressions.addSuppressions(
+        [this.synthProject.role!],
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "The synth step requires access to read and write any cache entry in the NxRemoteCacheBucket.",
+            appliesTo: [
+              {
+                regex: "/^Resource::<NxRemoteCacheBucket.*.Arn>/\\*$/g",
+              },
+            ],
+          },
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "The synth step requires wildcard actions to encrypt and decrypt cache entries with the NxRemoteCacheBucket key.",
+            appliesTo: [
+              {
+                regex: "/^Action::kms:(GenerateDataKey|ReEncrypt)\\*$/g",
+              },
+            ],
+          },
+        ]
+      );
+
+    const selfMutationProject = this.node
+      .tryFindChild("UpdatePipeline")
+      ?.node.tryFindChild("SelfMutation") as Project | undefined;
+    selfMutationProject &&
+      this.nagSuppressions.addSuppressions(
+        [selfMutationProject.role!],
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "CodePipeline requires access to assume a role from within the current account in order to deploy.",
+            appliesTo: [
+              {
+                regex: `/^Resource::arn:\\*:iam::${PDKNag.getStackAccountRegex(
+                  stack
+                )}:role/\\*$/g`,
+              },
+            ],
+          },
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "CodePipeline requires access to list all buckets and stacks.",
+            appliesTo: [
+              {
+                regex: "/^Resource::\\*$/g",
+              },
+            ],
+          },
+        ]
+      );
 
-    PDKNag.addResourceSuppressionsByPathNoThrow(
-      stack,
-      `${PDKNag.getStackPrefix(stack)}${
-        this.id
-      }/Assets/FileRole/DefaultPolicy/Resource`,
+    // Asset publishing roles are shared by all assets of the same type
+    const assetsScope = this.node.tryFindChild("Assets");
+    const fileRole = assetsScope?.node.tryFindChild("FileRole");
+    const dockerRole = assetsScope?.node.tryFindChild("DockerRole");
+    fileRole &&
+      this.nagSuppressions.addSuppressions(
+        [fileRole],
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason: "Asset role requires access to the Artifacts Bucket",
+          },
+        ]
+      );
+    dockerRole &&
+      this.nagSuppressions.addSuppressions(
+        [dockerRole],
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "Asset role requires access to the Artifacts Bucket, to authenticate with ECR and to assume the image publishing roles of each target environment.",
+          },
+        ]
+      );
+
+    // Docker requires privileged mode in order to build images
+    this.nagSuppressions.addSuppressions(
+      [this, this.pipeline]
+        .flatMap((scope) => scope.node.findAll())
+        .filter((c): c is Project => c instanceof Project)
+        .filter(
+          (project) =>
+            stack.resolve((project.node.defaultChild as CfnProject).environment)
+              ?.privilegedMode
+        ),
       [
         {
-          id: "AwsSolutions-IAM5",
-          reason: "Asset role requires access to the Artifacts Bucket",
+          id: "AwsSolutions-CB3",
+          reason:
+            "Privileged mode is required in order to build container images.",
         },
       ]
     );
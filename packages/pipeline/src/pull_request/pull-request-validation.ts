@@ -0,0 +1,368 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import * as path from "path";
+import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
+import { Duration, Stack } from "aws-cdk-lib";
+import {
+  BuildEnvironment,
+  BuildEnvironmentVariableType,
+  BuildSpec,
+  LinuxBuildImage,
+  Project,
+  Source,
+} from "aws-cdk-lib/aws-codebuild";
+import { IRepository } from "aws-cdk-lib/aws-codecommit";
+import { EventField, RuleTargetInput } from "aws-cdk-lib/aws-events";
+import {
+  CodeBuildProject,
+  LambdaFunction,
+} from "aws-cdk-lib/aws-events-targets";
+import {
+  Effect,
+  PolicyStatement,
+  Role,
+  ServicePrincipal,
+} from "aws-cdk-lib/aws-iam";
+import { Code, Function } from "aws-cdk-lib/aws-lambda";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { SonarqubeLanguageReportsConfig } from "../code_scanner/sonar-code-scanner";
+import {
+  sonarqubeLanguageParameters,
+  sonarqubePullRequestParameters,
+  sonarqubeScanner,
+} from "../code_scanner/sonarqube-commands";
+import { HANDLER_RUNTIME } from "../handler-runtime";
+
+const APPROVAL_RULE_NAME = "PDKPipelineBuildValidation";
+
+/**
+ * Configuration of the build which validates pull requests raised against the default branch.
+ */
+export interface PullRequestValidationConfig {
+  /**
+   * Commands to install dependencies prior to validating the pull request.
+   *
+   * @default - the install commands of the synth step.
+   */
+  readonly installCommands?: string[];
+
+  /**
+   * Commands to validate the pull request.
+   *
+   * @default - the commands of the synth step.
+   */
+  readonly commands?: string[];
+
+  /**
+   * Build environment of the validation project.
+   *
+   * @default - LinuxBuildImage.STANDARD_5_0
+   */
+  readonly buildEnvironment?: BuildEnvironment;
+
+  /**
+   * Additional environment variables to set for the validation build.
+   *
+   * @default - the env of the synth step.
+   */
+  readonly env?: { [key: string]: string };
+
+  /**
+   * Whether a pull request approval rule requiring a successful build should be created on each pull request.
+   *
+   * @default true
+   */
+  readonly approvalRuleEnabled?: boolean;
+
+  /**
+   * Additional policy statements to add to the role of the validation build i.e: to read parameters
+   * referenced by the commands.
+   *
+   * @default undefined
+   */
+  readonly rolePolicyStatements?: PolicyStatement[];
+}
+
+/**
+ * Sonarqube scan of a pull request.
+ */
+export interface PullRequestSonarqubeScan {
+  /**
+   * endpoint of the sonarqube instance i.e: https://<your-sonarqube-endpoint>.
+   */
+  readonly sonarqubeEndpoint: string;
+
+  /**
+   * Name of the project in Sonarqube.
+   */
+  readonly sonarqubeProjectName: string;
+
+  /**
+   * Secret containing the Sonarqube user token used to perform the scan.
+   */
+  readonly sonarqubeToken: ISecret;
+
+  /**
+   * glob patterns to exclude from sonar scan.
+   */
+  readonly excludeGlobsForScan?: string[];
+
+  /**
+   * Locations of Python and Java coverage and test reports produced by the validation build.
+   *
+   * @default - reports at the default locations of each tool.
+   */
+  readonly languageReports?: SonarqubeLanguageReportsConfig;
+}
+
+/**
+ * PullRequestValidation properties.
+ */
+export interface PullRequestValidationProps
+  extends PullRequestValidationConfig {
+  /**
+   * CodeCommit repository to validate pull requests for.
+   */
+  readonly repository: IRepository;
+
+  /**
+   * Branch which pull requests must target in order to be validated.
+   */
+  readonly branch: string;
+
+  /**
+   * Sonarqube scan to perform once the pull request has been built successfully, decorating the
+   * pull request with its analysis. A failing quality gate fails the validation build.
+   *
+   * @default undefined
+   */
+  readonly sonarqubeScan?: PullRequestSonarqubeScan;
+}
+
+/**
+ * Builds pull requests raised against a CodeCommit repository and reports the result
+ * back to the pull request as a comment and an approval vote.
+ *
+ * The result is reported by a separate handler, so that the code under validation has no
+ * permission to comment on or approve the pull request.
+ */
+export class PullRequestValidation extends Construct {
+  /**
+   * CodeBuild project which validates the pull requests.
+   */
+  public readonly project: Project;
+
+  /**
+   * Lambda which reports the result of each build back to its pull request.
+   */
+  public readonly approvalHandler: Function;
+
+  constructor(scope: Construct, id: string, props: PullRequestValidationProps) {
+    super(scope, id);
+
+    const stack = Stack.of(this);
+    const approvalRuleEnabled = props.approvalRuleEnabled ?? true;
+    const projectRole = new Role(this, "ProjectRole", {
+      assumedBy: new ServicePrincipal("codebuild.amazonaws.com"),
+    });
+
+    this.project = new Project(this, "Project", {
+      role: projectRole,
+      source: Source.codeCommit({ repository: props.repository }),
+      environment: props.buildEnvironment ?? {
+        buildImage: LinuxBuildImage.STANDARD_5_0,
+      },
+      environmentVariables: {
+        ...Object.fromEntries(
+          Object.entries(props.env || {}).map(([key, value]) => [
+            key,
+            { type: BuildEnvironmentVariableType.PLAINTEXT, value },
+          ])
+        ),
+        REPOSITORY_NAME: {
+          type: BuildEnvironmentVariableType.PLAINTEXT,
+          value: props.repository.repositoryName,
+        },
+        ...(props.sonarqubeScan
+          ? {
+              SONARQUBE_TOKEN: {
+                type: BuildEnvironmentVariableType.SECRETS_MANAGER,
+                value: props.sonarqubeScan.sonarqubeToken.secretArn,
+              },
+              SONARQUBE_ENDPOINT: {
+                type: BuildEnvironmentVariableType.PLAINTEXT,
+                value: props.sonarqubeScan.sonarqubeEndpoint,
+              },
+              PROJECT_NAME: {
+                type: BuildEnvironmentVariableType.PLAINTEXT,
+                value: props.sonarqubeScan.sonarqubeProjectName,
+              },
+            }
+          : {}),
+      },
+      buildSpec: BuildSpec.fromObject({
+        version: "0.2",
+        env: {
+          shell: "bash",
+        },
+        phases: {
+          build: {
+            commands: [
+              ...(props.installCommands || []),
+              ...(props.commands || []),
+              ...(props.sonarqubeScan
+                ? [
+                    "export RESOLVED_SOURCE_VERSION=$SOURCE_COMMIT",
+                    sonarqubeScanner(
+                      [
+                        ...sonarqubePullRequestParameters(props.branch),
+                        ...sonarqubeLanguageParameters(
+                          props.sonarqubeScan.languageReports
+                        ),
+                      ],
+                      props.sonarqubeScan.excludeGlobsForScan
+                    ),
+                  ]
+                : []),
+            ],
+          },
+        },
+      }),
+    });
+
+    props.rolePolicyStatements?.forEach((statement) =>
+      this.project.addToRolePolicy(statement)
+    );
+
+    this.approvalHandler = new Function(this, "ApprovalHandler", {
+      code: Code.fromAsset(
+        path.join(__dirname, "pull_request_approval_handler")
+      ),
+      handler: "index.onBuildStateChange",
+      runtime: HANDLER_RUNTIME,
+      timeout: Duration.seconds(30),
+    });
+
+    // Only the handler is able to approve pull requests, as the approval pool is limited to its role
+    approvalRuleEnabled &&
+      this.approvalHandler
+        .addEnvironment("APPROVAL_RULE_NAME", APPROVAL_RULE_NAME)
+        .addEnvironment(
+          "APPROVAL_POOL_MEMBER",
+          `arn:${stack.partition}:sts::${stack.account}:assumed-role/${
+            this.approvalHandler.role!.roleName
+          }/*`
+        );
+
+    this.approvalHandler.addToRolePolicy(
+      new PolicyStatement({
+        actions: [
+          "codecommit:PostCommentForPullRequest",
+          ...(approvalRuleEnabled
+            ? [
+                "codecommit:CreatePullRequestApprovalRule",
+                "codecommit:UpdatePullRequestApprovalState",
+              ]
+            : []),
+        ],
+        effect: Effect.ALLOW,
+        resources: [props.repository.repositoryArn],
+      })
+    );
+
+    this.project.onStateChange("OnBuildStateChange", {
+      target: new LambdaFunction(this.approvalHandler),
+    });
+
+    props.repository.onPullRequestStateChange("OnPullRequest", {
+      eventPattern: {
+        detail: {
+          event: ["pullRequestCreated", "pullRequestSourceBranchUpdated"],
+          destinationReference: [`refs/heads/${props.branch}`],
+        },
+      },
+      target: new CodeBuildProject(this.project, {
+        event: RuleTargetInput.fromObject({
+          sourceVersion: EventField.fromPath("$.detail.sourceCommit"),
+          environmentVariablesOverride: [
+            ["PULL_REQUEST_ID", "$.detail.pullRequestId"],
+            ["SOURCE_COMMIT", "$.detail.sourceCommit"],
+            ["DESTINATION_COMMIT", "$.detail.destinationCommit"],
+            ["REVISION_ID", "$.detail.revisionId"],
+            ["SOURCE_BRANCH", "$.detail.sourceReference"],
+          ].map(([name, fieldPath]) => ({
+            name,
+            type: "PLAINTEXT",
+            value: EventField.fromPath(fieldPath),
+          })),
+        }),
+      }),
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      projectRole,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Pull request validation CodeBuild project requires access to create logs and report groups whose names are dynamically determined.",
+          appliesTo: [
+            {
+              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:logs:${PDKNag.getStackRegionRegex(
+                stack
+              )}:${PDKNag.getStackAccountRegex(
+                stack
+              )}:log-group:/aws/codebuild/<.*PullRequestValidationProject.*>:\\*$/g`,
+            },
+            {
+              regex: `/^Resource::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:codebuild:${PDKNag.getStackRegionRegex(
+                stack
+              )}:${PDKNag.getStackAccountRegex(
+                stack
+              )}:report-group/<.*PullRequestValidationProject.*>-\\*$/g`,
+            },
+          ],
+        },
+      ],
+      true
+    );
+    NagSuppressions.addResourceSuppressions(
+      this.approvalHandler,
+      [
+        {
+          id: "AwsSolutions-IAM4",
+          reason:
+            "The pull request approval handler only requires the permissions to write its logs in addition to reporting to the repository.",
+          appliesTo: [
+            {
+              regex: `/^Policy::arn:${PDKNag.getStackPartitionRegex(
+                stack
+              )}:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole$/g`,
+            },
+          ],
+        },
+      ],
+      true
+    );
+  }
+}
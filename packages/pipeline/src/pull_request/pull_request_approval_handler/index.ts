@@ -0,0 +1,129 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import {
+  CodeCommitClient,
+  CreatePullRequestApprovalRuleCommand,
+  PostCommentForPullRequestCommand,
+  UpdatePullRequestApprovalStateCommand,
+} from "@aws-sdk/client-codecommit";
+import { CodeBuildCloudWatchStateEvent } from "aws-lambda";
+
+const client = new CodeCommitClient({});
+
+/**
+ * Handler which reports the state of a pull request validation build back to the pull request. The
+ * approval rule is created when the build starts, while the result is posted as a comment and a vote
+ * once the build completes.
+ *
+ * The handler runs under its own role, so the code under validation is unable to approve itself.
+ */
+exports.onBuildStateChange = async (event: CodeBuildCloudWatchStateEvent) => {
+  const { APPROVAL_RULE_NAME, APPROVAL_POOL_MEMBER } = process.env;
+  const buildStatus = event.detail["build-status"];
+  const variables = Object.fromEntries(
+    event.detail["additional-information"].environment[
+      "environment-variables"
+    ].map(({ name, value }) => [name, value])
+  );
+  const {
+    PULL_REQUEST_ID,
+    REVISION_ID,
+    REPOSITORY_NAME,
+    SOURCE_COMMIT,
+    DESTINATION_COMMIT,
+  } = variables;
+
+  if (!PULL_REQUEST_ID) {
+    return;
+  }
+
+  if (buildStatus === "IN_PROGRESS") {
+    APPROVAL_RULE_NAME &&
+      (await createApprovalRule(
+        PULL_REQUEST_ID,
+        APPROVAL_RULE_NAME,
+        APPROVAL_POOL_MEMBER!
+      ));
+    return;
+  }
+
+  const buildResult = buildStatus === "SUCCEEDED" ? "SUCCEEDED" : "FAILED";
+  await client.send(
+    new PostCommentForPullRequestCommand({
+      pullRequestId: PULL_REQUEST_ID,
+      repositoryName: REPOSITORY_NAME,
+      beforeCommitId: DESTINATION_COMMIT,
+      afterCommitId: SOURCE_COMMIT,
+      content: `Build ${buildResult}: ${getBuildUrl(event)}`,
+    })
+  );
+
+  APPROVAL_RULE_NAME &&
+    (await client.send(
+      new UpdatePullRequestApprovalStateCommand({
+        pullRequestId: PULL_REQUEST_ID,
+        revisionId: REVISION_ID,
+        approvalState: buildResult === "SUCCEEDED" ? "APPROVE" : "REVOKE",
+      })
+    ));
+};
+
+/**
+ * Creates an approval rule which requires an approval from the handler, unless it already exists.
+ */
+const createApprovalRule = async (
+  pullRequestId: string,
+  approvalRuleName: string,
+  approvalPoolMember: string
+) => {
+  try {
+    await client.send(
+      new CreatePullRequestApprovalRuleCommand({
+        pullRequestId,
+        approvalRuleName,
+        approvalRuleContent: JSON.stringify({
+          Version: "2018-11-08",
+          Statements: [
+            {
+              Type: "Approvers",
+              NumberOfApprovalsNeeded: 1,
+              ApprovalPoolMembers: [approvalPoolMember],
+            },
+          ],
+        }),
+      })
+    );
+  } catch (e) {
+    if ((e as Error).name !== "ApprovalRuleNameAlreadyExistsException") {
+      throw e;
+    }
+    console.info(`Approval rule ${approvalRuleName} already exists.`);
+  }
+};
+
+/**
+ * Returns the link to the build within the CodeBuild console.
+ */
+const getBuildUrl = (event: CodeBuildCloudWatchStateEvent) => {
+  const buildId = event.detail["build-id"].split("/").pop()!;
+
+  return `https://${event.region}.console.aws.amazon.com/codesuite/codebuild/${
+    event.account
+  }/projects/${event.detail["project-name"]}/build/${encodeURIComponent(
+    buildId
+  )}/?region=${event.region}`;
+};
@@ -0,0 +1,47 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import { buildAllCommand, nxCommand, PackageManager } from "./toolchain";
+
+/**
+ * Builds only the packages affected since the commit stored in the given SSM parameter, falling back
+ * to a full build if no baseline exists, the source is not a git clone or the synth output was not built.
+ *
+ * @param packageManager package manager used to execute nx.
+ * @param baseParameterName name of the SSM parameter containing the last successful commit.
+ * @param primarySynthDirectory output directory for cdk synthesized artifacts.
+ */
+export const nxAffectedBuild = (
+  packageManager: PackageManager,
+  baseParameterName: string,
+  primarySynthDirectory: string
+) => [
+  `export NX_BASE=\`aws ssm get-parameter --name ${baseParameterName} --query Parameter.Value --output text 2>/dev/null || echo ""\``,
+  `if [ -n "$NX_BASE" ] && git cat-file -e "$NX_BASE^{commit}" 2>/dev/null; then ${nxCommand(
+    packageManager
+  )} affected --target=build --base=$NX_BASE --head=HEAD; else echo "No baseline commit found, building all packages."; ${buildAllCommand(
+    packageManager
+  )}; fi`,
+  `[ -d ${primarySynthDirectory} ] || ${buildAllCommand(packageManager)}`,
+];
+
+/**
+ * Stores the current commit as the baseline for subsequent affected builds.
+ *
+ * @param baseParameterName name of the SSM parameter containing the last successful commit.
+ */
+export const recordNxAffectedBase = (baseParameterName: string) =>
+  `aws ssm put-parameter --name ${baseParameterName} --value \`git rev-parse HEAD\` --type String --overwrite`;
@@ -0,0 +1,142 @@
+/*********************************************************************************************************************
+ Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+
+ Licensed under the Apache License, Version 2.0 (the "License").
+ You may not use this file except in compliance with the License.
+ You may obtain a copy of the License at
+
+ http://www.apache.org/licenses/LICENSE-2.0
+
+ Unless required by applicable law or agreed to in writing, software
+ distributed under the License is distributed on an "AS IS" BASIS,
+ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ See the License for the specific language governing permissions and
+ limitations under the License.
+ ******************************************************************************************************************** */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Package manager used to install the dependencies of the monorepo.
+ */
+export enum PackageManager {
+  NPM = "npm",
+  YARN = "yarn",
+  PNPM = "pnpm",
+}
+
+/**
+ * Additional toolchains required to build a polyglot monorepo.
+ */
+export enum Toolchain {
+  PYTHON = "python",
+  JAVA = "java",
+}
+
+/**
+ * Version of pnpm installed by the synth build, pinned so that builds are reproducible.
+ */
+const PNPM_VERSION = "7.33.7";
+
+const LOCK_FILES: [string, PackageManager][] = [
+  ["pnpm-lock.yaml", PackageManager.PNPM],
+  ["yarn.lock", PackageManager.YARN],
+  ["package-lock.json", PackageManager.NPM],
+];
+
+/**
+ * Detects the package manager from the lock file found in the given directory or any of its parents.
+ *
+ * @param dir directory to begin the search from.
+ * @returns the detected package manager, or undefined if no lock file was found.
+ */
+export const detectPackageManager = (
+  dir: string
+): PackageManager | undefined => {
+  const match = LOCK_FILES.find(([lockFile]) =>
+    fs.existsSync(path.join(dir, lockFile))
+  );
+  const parent = path.dirname(dir);
+
+  return match
+    ? match[1]
+    : parent !== dir
+    ? detectPackageManager(parent)
+    : undefined;
+};
+
+/**
+ * Commands to install the dependencies of the monorepo.
+ */
+export const installCommands = (
+  packageManager: PackageManager,
+  toolchains: Toolchain[]
+): string[] => [
+  ...(toolchains.includes(Toolchain.PYTHON)
+    ? ["pip install --upgrade pip"]
+    : []),
+  ...{
+    [PackageManager.NPM]: ["npm ci"],
+    [PackageManager.YARN]: ["yarn install --frozen-lockfile"],
+    [PackageManager.PNPM]: [
+      `npm install -g pnpm@${PNPM_VERSION}`,
+      "pnpm config set store-dir /root/.pnpm-store",
+      "pnpm install --frozen-lockfile",
+    ],
+  }[packageManager],
+];
+
+/**
+ * Command to execute nx with.
+ */
+export const nxCommand = (packageManager: PackageManager): string =>
+  ({
+    [PackageManager.NPM]: "npx nx",
+    [PackageManager.YARN]: "npx nx",
+    [PackageManager.PNPM]: "pnpm exec nx",
+  }[packageManager]);
+
+/**
+ * Command to build all packages of the monorepo.
+ */
+export const buildAllCommand = (packageManager: PackageManager): string =>
+  `${nxCommand(packageManager)} run-many --target=build --all`;
+
+/**
+ * Build spec phases and cache paths required by the package manager and toolchains.
+ */
+export const synthBuildSpec = (
+  packageManager: PackageManager,
+  toolchains: Toolchain[]
+) => ({
+  ...(toolchains.length > 0
+    ? {
+        phases: {
+          install: {
+            "runtime-versions": {
+              ...(toolchains.includes(Toolchain.PYTHON)
+                ? { python: "3.9" }
+                : {}),
+              ...(toolchains.includes(Toolchain.JAVA)
+                ? { java: "corretto11" }
+                : {}),
+            },
+          },
+        },
+      }
+    : {}),
+  cache: {
+    paths: [
+      {
+        [PackageManager.NPM]: "/root/.npm/**/*",
+        [PackageManager.YARN]: "/usr/local/share/.cache/yarn/**/*",
+        [PackageManager.PNPM]: "/root/.pnpm-store/**/*",
+      }[packageManager],
+      ...(toolchains.includes(Toolchain.PYTHON)
+        ? ["/root/.cache/pip/**/*"]
+        : []),
+      ...(toolchains.includes(Toolchain.JAVA) ? ["/root/.m2/**/*"] : []),
+    ],
+  },
+});
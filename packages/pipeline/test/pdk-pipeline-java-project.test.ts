@@ -72,4 +72,26 @@ describe("PDK Pipeline Java Unit Tests", () => {
     });
     expect(synthSnapshot(project)).toMatchSnapshot();
   });
+
+  it("With Environments", () => {
+    const project = new PDKPipelineJavaProject({
+      artifactId: "test",
+      cdkVersion: "2.0.0",
+      groupId: "test",
+      mainClass: "software.aws.Pipeline",
+      version: "0.0.0",
+      name: "WithEnvironments",
+      environments: [
+        { name: "Dev" },
+        { name: "Staging", region: "us-east-1" },
+        {
+          name: "Prod",
+          account: "222222222222",
+          region: "eu-west-1",
+          approvalRequired: true,
+        },
+      ],
+    });
+    expect(synthSnapshot(project)).toMatchSnapshot();
+  });
 });
@@ -84,6 +84,28 @@ describe("PDK Pipeline Py Unit Tests", () => {
     });
     expect(sanitizeOutput(synthSnapshot(project))).toMatchSnapshot();
   });
+
+  it("With Environments", () => {
+    const project = new PDKPipelinePyProject({
+      authorEmail: "test@test.com",
+      authorName: "test",
+      moduleName: "withenvironments",
+      version: "0.0.0",
+      cdkVersion: "2.0.0",
+      name: "WithEnvironments",
+      environments: [
+        { name: "Dev" },
+        { name: "Staging", region: "us-east-1" },
+        {
+          name: "Prod",
+          account: "222222222222",
+          region: "eu-west-1",
+          approvalRequired: true,
+        },
+      ],
+    });
+    expect(sanitizeOutput(synthSnapshot(project))).toMatchSnapshot();
+  });
 });
 
 function sanitizeOutput(output: SynthOutput) {
@@ -71,4 +71,35 @@ describe("PDK Pipeline TS Unit Tests", () => {
     });
     expect(synthSnapshot(project)).toMatchSnapshot();
   });
+
+  it("With Environments", () => {
+    const project = new PDKPipelineTsProject({
+      cdkVersion: "2.0.0",
+      defaultReleaseBranch: "mainline",
+      name: "WithEnvironments",
+      environments: [
+        { name: "Dev" },
+        { name: "Staging", region: "us-east-1" },
+        {
+          name: "Prod",
+          account: "222222222222",
+          region: "eu-west-1",
+          approvalRequired: true,
+        },
+      ],
+    });
+    expect(synthSnapshot(project)).toMatchSnapshot();
+  });
+
+  it("Duplicate Environments", () => {
+    expect(
+      () =>
+        new PDKPipelineTsProject({
+          cdkVersion: "2.0.0",
+          defaultReleaseBranch: "mainline",
+          name: "DuplicateEnvironments",
+          environments: [{ name: "Dev" }, { name: "Dev" }],
+        })
+    ).toThrow(/Environment names must be unique/);
+  });
 });
@@ -14,13 +14,30 @@
  limitations under the License.
  ******************************************************************************************************************** */
 
+import * as fs from "fs";
 import * as path from "path";
 import { PDKNag } from "@aws-prototyping-sdk/pdk-nag";
-import { Stack, Stage } from "aws-cdk-lib";
-import { Template } from "aws-cdk-lib/assertions";
+import { App, CfnOutput, Fn, Stack, Stage } from "aws-cdk-lib";
+import { Annotations, Match, Template } from "aws-cdk-lib/assertions";
+import { CfnProject, ComputeType } from "aws-cdk-lib/aws-codebuild";
+import { DockerImageAsset } from "aws-cdk-lib/aws-ecr-assets";
+import { Schedule } from "aws-cdk-lib/aws-events";
+import { PolicyStatement, Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
 import { Bucket } from "aws-cdk-lib/aws-s3";
 import { Asset } from "aws-cdk-lib/aws-s3-assets";
-import { PDKPipeline } from "../src";
+import { Secret } from "aws-cdk-lib/aws-secretsmanager";
+import { DockerCredential } from "aws-cdk-lib/pipelines";
+import { NagSuppressions } from "cdk-nag";
+import {
+  CodeScanner,
+  ImageScanFindingSeverity,
+  NagSuppressionRegistry,
+  PackageManager,
+  PDKPipeline,
+  PDKPipelineSource,
+  StageIntegrationTest,
+  Toolchain,
+} from "../src";
 
 describe("PDK Pipeline Unit Tests", () => {
   it("Defaults", () => {
@@ -80,4 +97,1615 @@ describe("PDK Pipeline Unit Tests", () => {
       "Stage/AppStack/Non-Compliant/Resource"
     );
   });
+
+  it("ConnectionSource", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "ConnectionSource", {
+      primarySynthDirectory: "cdk.out",
+      source: PDKPipelineSource.connection("owner/repo", {
+        connectionArn:
+          "arn:aws:codestar-connections:us-east-1:123456789012:connection/12345678-abcd-12ab-34cdef5678gh",
+      }),
+      synth: {},
+    });
+
+    const stage = new Stage(app, "Stage");
+    new Stack(stage, "AppStack");
+
+    pipeline.addStage(stage);
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::CodeCommit::Repository", 0);
+    expect(template.findOutputs("CodeRepositoryGRCUrl")).toEqual({});
+    expect(pipeline.sourceRepository).toBeUndefined();
+    expect(() => pipeline.codeRepository).toThrow();
+  });
+
+  it("RequiresSourceOrRepositoryName", () => {
+    const stack = new Stack(PDKNag.app());
+
+    expect(
+      () =>
+        new PDKPipeline(stack, "RequiresSourceOrRepositoryName", {
+          primarySynthDirectory: "cdk.out",
+          synth: {},
+        })
+    ).toThrow("One of source or repositoryName must be provided.");
+  });
+
+  it("PullRequestValidation", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "PullRequestValidation", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "PullRequestValidation",
+      synth: {},
+      pullRequestValidationConfig: {},
+    });
+
+    const stage = new Stage(app, "Stage");
+    new Stack(stage, "AppStack");
+
+    pipeline.addStage(stage);
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: {
+        source: ["aws.codecommit"],
+        "detail-type": ["CodeCommit Pull Request State Change"],
+        detail: {
+          event: ["pullRequestCreated", "pullRequestSourceBranchUpdated"],
+          destinationReference: ["refs/heads/mainline"],
+        },
+      },
+    });
+    expect(pipeline.pullRequestValidation?.project).toBeDefined();
+
+    // Only the approval handler, rather than the build of the pull request, is permitted to approve it
+    const policies = template.findResources("AWS::IAM::Policy");
+    const approvers = Object.values(policies).filter((policy) =>
+      JSON.stringify(policy).includes(
+        "codecommit:UpdatePullRequestApprovalState"
+      )
+    );
+    expect(approvers).toHaveLength(1);
+    expect(JSON.stringify(approvers[0])).toContain("ApprovalHandler");
+    template.hasResourceProperties("AWS::Events::Rule", {
+      EventPattern: {
+        source: ["aws.codebuild"],
+        "detail-type": ["CodeBuild Build State Change"],
+      },
+      Targets: [
+        Match.objectLike({
+          Arn: {
+            "Fn::GetAtt": [
+              Match.stringLikeRegexp("PullRequestValidationApprovalHandler"),
+              "Arn",
+            ],
+          },
+        }),
+      ],
+    });
+  });
+
+  it("SonarPullRequestScan", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "SonarPullRequestScan", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "SonarPullRequestScan",
+      defaultBranchName: "main",
+      synth: {},
+      pullRequestValidationConfig: {},
+      sonarCodeScannerConfig: {
+        sonarqubeEndpoint: "https://sonarqube.example.com",
+        sonarqubeDefaultProfileOrGateName: "Default",
+        sonarqubeAuthorizedGroup: "developers",
+        sonarqubeProjectName: "SonarPullRequestScan",
+        pullRequestScanEnabled: true,
+      },
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const templateJson = JSON.stringify(Template.fromStack(stack).toJSON());
+    expect(templateJson).toContain("-Dsonar.branch.name=main");
+    expect(templateJson).toContain(
+      "project_branches/rename?project=$PROJECT_NAME&name=main"
+    );
+    expect(templateJson).toContain("&branch=main");
+    expect(templateJson).not.toContain("mainline");
+    expect(templateJson).toContain("-Dsonar.pullrequest.key=$PULL_REQUEST_ID");
+    expect(templateJson).toContain("-Dsonar.pullrequest.base=main");
+    expect(templateJson).toContain("-Dsonar.qualitygate.wait=true");
+    expect(pipeline.pullRequestValidation?.project).toBeDefined();
+  });
+
+  it("SonarQualityGateBlocking", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "SonarQualityGateBlocking", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "SonarQualityGateBlocking",
+      synth: {},
+      sonarCodeScannerConfig: {
+        sonarqubeEndpoint: "https://sonarqube.example.com",
+        sonarqubeDefaultProfileOrGateName: "Default",
+        sonarqubeAuthorizedGroup: "developers",
+        sonarqubeProjectName: "SonarQualityGateBlocking",
+        qualityGateBlocking: true,
+      },
+    });
+
+    const stage = new Stage(app, "Stage");
+    new Stack(stage, "AppStack");
+
+    pipeline.addStage(stage);
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    const [pipelineResource] = Object.values(
+      template.findResources("AWS::CodePipeline::Pipeline")
+    );
+    expect(
+      pipelineResource.Properties.Stages.map((s: { Name: string }) => s.Name)
+    ).toEqual(["Source", "Build", "UpdatePipeline", "Stage"]);
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Stage",
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: "SonarQualityGate", RunOrder: 1 }),
+            Match.objectLike({ Name: "AppStack.Prepare", RunOrder: 2 }),
+          ]),
+        }),
+      ]),
+    });
+
+    const templateJson = JSON.stringify(template.toJSON());
+    expect(templateJson).toContain("-Dsonar.qualitygate.wait=true");
+    expect(templateJson).toContain("Quality gate condition failed");
+    expect(templateJson).toContain("JUNITXML");
+    expect(pipeline.sonarCodeScanner?.validationProject).toBeUndefined();
+  });
+
+  it("CodeScanners", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "CodeScanners", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "CodeScanners",
+      synth: {},
+      codeScanners: [
+        CodeScanner.semgrep({ config: "p/default" }),
+        CodeScanner.checkov({ frameworks: ["cloudformation"] }),
+        CodeScanner.trivy({ severities: ["HIGH", "CRITICAL"] }),
+        CodeScanner.npmAudit(),
+        CodeScanner.bandit(),
+      ],
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::CodeBuild::ReportGroup", 5);
+    expect(pipeline.codeScannerBindings?.map((b) => b.name)).toEqual([
+      "Semgrep",
+      "Checkov",
+      "Trivy",
+      "NpmAudit",
+      "Bandit",
+    ]);
+    expect(
+      pipeline.codeScannerBindings?.every((b) => b.project && b.reportGroup)
+    ).toBe(true);
+
+    const templateJson = JSON.stringify(template.toJSON());
+    expect(templateJson).toContain(
+      "semgrep scan --config p/default --sarif --output reports/semgrep.sarif"
+    );
+    expect(templateJson).toContain("--framework cloudformation");
+    expect(templateJson).toContain("--severity HIGH,CRITICAL");
+    expect(templateJson).toContain(
+      "https://github.com/aquasecurity/trivy/releases/download/v0.45.1/trivy_0.45.1_checksums.txt"
+    );
+    expect(templateJson).toContain("sha256sum --check");
+    expect(templateJson).toContain("npm audit --json");
+    expect(templateJson).toContain("bandit -r .");
+    expect(templateJson).toContain(
+      "code-scans/semgrep/$RESOLVED_SOURCE_VERSION/"
+    );
+  });
+
+  it("SonarqubeCodeScanner", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "SonarqubeCodeScanner", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "SonarqubeCodeScanner",
+      synth: {},
+      codeScanners: [
+        CodeScanner.sonarqube({
+          sonarqubeEndpoint: "https://sonarqube.example.com",
+          sonarqubeDefaultProfileOrGateName: "Default",
+          sonarqubeAuthorizedGroup: "developers",
+          sonarqubeProjectName: "SonarqubeCodeScanner",
+        }),
+      ],
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    expect(pipeline.codeScannerBindings?.[0].project).toBeDefined();
+    expect(JSON.stringify(Template.fromStack(stack).toJSON())).toContain(
+      "-Dsonar.branch.name=mainline"
+    );
+  });
+
+  it("CodeScannersConfiguredOnce", () => {
+    const sonarqubeConfig = {
+      sonarqubeEndpoint: "https://sonarqube.example.com",
+      sonarqubeDefaultProfileOrGateName: "Default",
+      sonarqubeAuthorizedGroup: "developers",
+      sonarqubeProjectName: "CodeScannersConfiguredOnce",
+    };
+
+    expect(
+      () =>
+        new PDKPipeline(new Stack(), "DuplicateCodeScanners", {
+          primarySynthDirectory: "cdk.out",
+          repositoryName: "DuplicateCodeScanners",
+          synth: {},
+          codeScanners: [
+            CodeScanner.semgrep(),
+            CodeScanner.semgrep({ config: "p/default" }),
+          ],
+        })
+    ).toThrow(
+      "The Semgrep code scanner is configured more than once, each scanner may only be configured once."
+    );
+    expect(
+      () =>
+        new PDKPipeline(new Stack(), "DuplicateSonarqube", {
+          primarySynthDirectory: "cdk.out",
+          repositoryName: "DuplicateSonarqube",
+          synth: {},
+          sonarCodeScannerConfig: sonarqubeConfig,
+          codeScanners: [CodeScanner.sonarqube(sonarqubeConfig)],
+        })
+    ).toThrow(
+      "Sonarqube is configured as both a code scanner and via sonarCodeScannerConfig, only one may be used."
+    );
+  });
+
+  it("SonarReports", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "SonarReports", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "SonarReports",
+      synth: {},
+      sonarCodeScannerConfig: {
+        sonarqubeEndpoint: "https://sonarqube.example.com",
+        sonarqubeDefaultProfileOrGateName: "Default",
+        sonarqubeAuthorizedGroup: "developers",
+        sonarqubeProjectName: "SonarReports",
+      },
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::CodeBuild::ReportGroup", 3);
+    expect(pipeline.sonarCodeScanner?.reportGroups).toHaveLength(3);
+
+    const templateJson = JSON.stringify(template.toJSON());
+    expect(templateJson).toContain("--format HTML --format SARIF");
+    expect(templateJson).toContain("reports/cfn-nag.sarif");
+    expect(templateJson).toContain("reports/sonarqube.sarif");
+    expect(templateJson).toContain(
+      "/code-scans/sonarqube/$RESOLVED_SOURCE_VERSION/ --recursive"
+    );
+    expect(templateJson).toContain("JUNITXML");
+  });
+
+  it("SonarLanguageReports", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "SonarLanguageReports", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "SonarLanguageReports",
+      synth: {},
+      sonarCodeScannerConfig: {
+        sonarqubeEndpoint: "https://sonarqube.example.com",
+        sonarqubeDefaultProfileOrGateName: "Default",
+        sonarqubeAuthorizedGroup: "developers",
+        sonarqubeProjectName: "SonarLanguageReports",
+        languageReports: {
+          javaBinaries: ["packages/api/target/classes"],
+        },
+      },
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const templateJson = JSON.stringify(Template.fromStack(stack).toJSON());
+    expect(templateJson).toContain("-Dsonar.python.coverage.reportPaths=");
+    expect(templateJson).toContain("-Dsonar.python.xunit.reportPath=");
+    expect(templateJson).toContain("-Dsonar.coverage.jacoco.xmlReportPaths=");
+    expect(templateJson).toContain("-Dsonar.junit.reportPaths=");
+    expect(templateJson).toContain("packages/api/target/classes");
+    expect(templateJson).toContain("**/target/classes/**");
+  });
+
+  it("SonarPDKNagIssues", () => {
+    const app = PDKNag.app();
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "SonarPDKNagIssues", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "SonarPDKNagIssues",
+      synth: {},
+      sonarCodeScannerConfig: {
+        sonarqubeEndpoint: "https://sonarqube.example.com",
+        sonarqubeDefaultProfileOrGateName: "Default",
+        sonarqubeAuthorizedGroup: "developers",
+        sonarqubeProjectName: "SonarPDKNagIssues",
+        cdkOutDir: "packages/infra/cdk.out",
+      },
+    });
+
+    const stage = new Stage(app, "Dev");
+    const bucket = new Bucket(new Stack(stage, "AppStack"), "Bucket");
+    NagSuppressions.addResourceSuppressions(bucket, [
+      {
+        id: "AwsSolutions-S1",
+        reason: "Access logs are not required for this bucket.",
+      },
+    ]);
+    pipeline.addStage(stage);
+    pipeline.buildPipeline();
+
+    const assembly = app.synth();
+
+    const readResults = (fileName: string) =>
+      JSON.parse(
+        fs.readFileSync(path.join(assembly.directory, fileName)).toString()
+      );
+    const bucketResult = {
+      resource: "Dev/AppStack/Bucket/Resource",
+      stackName: "Dev-AppStack",
+      logicalId: "Bucket83908E77",
+      templateFile: "assembly-Dev/DevAppStackAD8C4C7B.template.json",
+    };
+    expect(readResults("pdk-nag-results.json")).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          ...bucketResult,
+          messages: expect.arrayContaining([
+            expect.objectContaining({
+              ruleId: "AwsSolutions-S10",
+              messageType: "aws:cdk:error",
+              suppressed: false,
+            }),
+          ]),
+        }),
+      ])
+    );
+    expect(readResults("pdk-nag-suppressed-results.json")).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          ...bucketResult,
+          messages: [
+            expect.objectContaining({
+              nagPackName: "AwsSolutions",
+              ruleId: "AwsSolutions-S1",
+              ruleName: "S1",
+              level: "Error",
+              info: "The S3 Bucket has server access logs disabled.",
+              suppressed: true,
+              suppressionReason:
+                "Access logs are not required for this bucket.",
+            }),
+          ],
+        }),
+      ])
+    );
+
+    const templateJson = JSON.stringify(Template.fromStack(stack).toJSON());
+    expect(templateJson).toContain(
+      "-Dsonar.externalIssuesReportPaths=reports/pdk-nag-issues.json"
+    );
+    expect(templateJson).toContain(
+      "packages/infra/cdk.out/pdk-nag-results.json"
+    );
+  });
+
+  it("SonarTokenRotation", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "SonarTokenRotation", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "SonarTokenRotation",
+      synth: {},
+      sonarCodeScannerConfig: {
+        sonarqubeEndpoint: "https://sonarqube.example.com",
+        sonarqubeDefaultProfileOrGateName: "Default",
+        sonarqubeAuthorizedGroup: "developers",
+        sonarqubeProjectName: "SonarTokenRotation",
+        tokenRotation: {
+          login: "pipeline",
+          adminTokenSecretArn:
+            "arn:aws:secretsmanager:us-east-1:123456789012:secret:SonarqubeAdminToken-AbCdEf",
+          rotationDays: 7,
+        },
+        tokenValidationEnabled: true,
+      },
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::SecretsManager::RotationSchedule", {
+      RotationRules: { AutomaticallyAfterDays: 7 },
+    });
+    template.hasResource("AWS::CloudFormation::CustomResource", {
+      Properties: Match.objectLike({
+        SONARQUBE_ENDPOINT: "https://sonarqube.example.com",
+      }),
+      DependsOn: Match.arrayWith([
+        Match.stringLikeRegexp("SonarqubeTokenRotation"),
+      ]),
+    });
+  });
+
+  it("SonarTokenValidationRequiresRotation", () => {
+    const stack = new Stack(PDKNag.app());
+
+    const pipeline = new PDKPipeline(
+      stack,
+      "SonarTokenValidationRequiresRotation",
+      {
+        primarySynthDirectory: "cdk.out",
+        repositoryName: "SonarTokenValidationRequiresRotation",
+        synth: {},
+        sonarCodeScannerConfig: {
+          sonarqubeEndpoint: "https://sonarqube.example.com",
+          sonarqubeDefaultProfileOrGateName: "Default",
+          sonarqubeAuthorizedGroup: "developers",
+          sonarqubeProjectName: "SonarTokenValidationRequiresRotation",
+          tokenValidationEnabled: true,
+        },
+      }
+    );
+
+    expect(() => pipeline.buildPipeline()).toThrow(
+      "tokenValidationEnabled requires tokenRotation"
+    );
+  });
+
+  it("PullRequestValidationRequiresCodeCommit", () => {
+    const stack = new Stack(PDKNag.app());
+
+    expect(
+      () =>
+        new PDKPipeline(stack, "PullRequestValidationRequiresCodeCommit", {
+          primarySynthDirectory: "cdk.out",
+          source: PDKPipelineSource.connection("owner/repo", {
+            connectionArn:
+              "arn:aws:codestar-connections:us-east-1:123456789012:connection/12345678-abcd-12ab-34cdef5678gh",
+          }),
+          synth: {},
+          pullRequestValidationConfig: {},
+        })
+    ).toThrow(
+      "Pull request validation is only supported with a CodeCommit source."
+    );
+  });
+
+  it("FeatureBranches", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app);
+
+    const pipeline = new PDKPipeline(stack, "FeatureBranches", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "FeatureBranches",
+      synth: {},
+      branchNamePrefixes: ["feature/"],
+    });
+
+    const stage = new Stage(app, "Stage");
+    new Stack(stage, "AppStack");
+
+    pipeline.addStage(stage);
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    ["referenceCreated", "referenceDeleted"].forEach((event) =>
+      template.hasResourceProperties("AWS::Events::Rule", {
+        EventPattern: {
+          detail: {
+            event: [event],
+            referenceType: ["branch"],
+            referenceName: [{ prefix: "feature/" }],
+          },
+        },
+      })
+    );
+    expect(pipeline.featureBranches).toBeDefined();
+
+    // Stacks without the branch prefix are neither deployed nor destroyed
+    ["CreateBranchProject", "DestroyBranchProject"].forEach((id) => {
+      const commands: string[] = JSON.parse(
+        stack.resolve(
+          (
+            pipeline.featureBranches!.node.findChild(id).node
+              .defaultChild as CfnProject
+          ).source
+        ).buildSpec
+      ).phases.build.commands;
+      const verification = commands.findIndex((command) =>
+        command.startsWith("UNPREFIXED_STACKS=")
+      );
+      expect(verification).toBeGreaterThan(0);
+      expect(commands[verification + 1]).toContain("exit 1");
+      expect(commands[verification + 2]).toMatch(/^npx cdk (deploy|destroy) /);
+    });
+  });
+
+  it("FeatureBranchPipeline", () => {
+    process.env.PDK_PIPELINE_BRANCH = "feature/test";
+    try {
+      const branchNamePrefixes = ["feature/"];
+      const app = PDKNag.app({ failOnError: true });
+      const stack = new Stack(
+        app,
+        `${PDKPipeline.getBranchPrefix({
+          branchNamePrefixes,
+        })}FeatureBranchPipeline`
+      );
+
+      const pipeline = new PDKPipeline(stack, "FeatureBranchPipeline", {
+        primarySynthDirectory: "cdk.out",
+        source: PDKPipelineSource.codeCommit("FeatureBranchPipeline"),
+        synth: {},
+        branchNamePrefixes,
+      });
+
+      const stage = new Stage(
+        app,
+        `${PDKPipeline.getBranchPrefix({ branchNamePrefixes })}Stage`
+      );
+      new Stack(stage, "AppStack");
+
+      pipeline.addStage(stage);
+      pipeline.buildPipeline();
+
+      app.synth();
+
+      expect(stack.stackName).toEqual("feature-test-FeatureBranchPipeline");
+      const template = Template.fromStack(stack);
+      template.resourceCountIs("AWS::CodeCommit::Repository", 0);
+      template.resourceCountIs("AWS::Events::Rule", 1);
+      expect(template.findOutputs("CodeRepositoryGRCUrl")).toEqual({});
+      expect(pipeline.featureBranches).toBeUndefined();
+      expect(pipeline.codeRepository.repositoryName).toEqual(
+        "FeatureBranchPipeline"
+      );
+      template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+        Stages: Match.arrayWith([
+          Match.objectLike({
+            Name: "Source",
+            Actions: [
+              Match.objectLike({
+                Configuration: Match.objectLike({
+                  BranchName: "feature/test",
+                }),
+              }),
+            ],
+          }),
+        ]),
+      });
+    } finally {
+      delete process.env.PDK_PIPELINE_BRANCH;
+    }
+  });
+
+  it("BranchIgnoredWithoutFeatureBranches", () => {
+    process.env.PDK_PIPELINE_BRANCH = "feature/test";
+    try {
+      expect(PDKPipeline.isDefaultBranch()).toBe(true);
+      expect(
+        PDKPipeline.isDefaultBranch({ branchNamePrefixes: ["fix/"] })
+      ).toBe(true);
+      expect(
+        PDKPipeline.isDefaultBranch({ branchNamePrefixes: ["feature/"] })
+      ).toBe(false);
+
+      const stack = new Stack(
+        PDKNag.app(),
+        "BranchIgnoredWithoutFeatureBranches"
+      );
+      new PDKPipeline(stack, "BranchIgnoredWithoutFeatureBranches", {
+        primarySynthDirectory: "cdk.out",
+        repositoryName: "BranchIgnoredWithoutFeatureBranches",
+        synth: {},
+      }).buildPipeline();
+
+      Template.fromStack(stack).resourceCountIs(
+        "AWS::CodeCommit::Repository",
+        1
+      );
+    } finally {
+      delete process.env.PDK_PIPELINE_BRANCH;
+    }
+  });
+
+  it("PackageManagerAndToolchains", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "PackageManagerAndToolchains");
+
+    const pipeline = new PDKPipeline(stack, "PackageManagerAndToolchains", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "PackageManagerAndToolchains",
+      synth: {},
+      packageManager: PackageManager.PNPM,
+      toolchains: [Toolchain.PYTHON, Toolchain.JAVA],
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Description: Match.stringLikeRegexp("Synth"),
+      Cache: Match.objectLike({ Type: "S3" }),
+      Source: {
+        BuildSpec: Match.serializedJson(
+          Match.objectLike({
+            phases: Match.objectLike({
+              install: {
+                "runtime-versions": { python: "3.9", java: "corretto11" },
+                commands: Match.arrayWith([
+                  "npm install -g pnpm@7.33.7",
+                  "pnpm install --frozen-lockfile",
+                ]),
+              },
+              build: {
+                commands: ["pnpm exec nx run-many --target=build --all"],
+              },
+            }),
+            cache: {
+              paths: [
+                "/root/.pnpm-store/**/*",
+                "/root/.cache/pip/**/*",
+                "/root/.m2/**/*",
+              ],
+            },
+          })
+        ),
+      },
+    });
+  });
+
+  it("NxAffected", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "NxAffected");
+
+    const pipeline = new PDKPipeline(stack, "NxAffected", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "NxAffected",
+      synth: {},
+      nxAffected: true,
+      pullRequestValidationConfig: {},
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Source: {
+        BuildSpec: Match.stringLikeRegexp(
+          "npx nx affected --target=build --base=\\$NX_BASE"
+        ),
+      },
+    });
+    template.hasResourceProperties("AWS::SSM::Parameter", {
+      Name: "/NxAffected/NxAffected/NxAffectedBase",
+      Type: "String",
+    });
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "NxAffectedBase",
+          Actions: [Match.objectLike({ Name: "RecordNxAffectedBase" })],
+        }),
+      ]),
+    });
+
+    // Pull request builds reuse the nx affected commands, so must be able to read the baseline
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: "ssm:GetParameter",
+          }),
+        ]),
+      },
+      Roles: [
+        { Ref: Match.stringLikeRegexp("PullRequestValidationProjectRole") },
+      ],
+    });
+  });
+
+  it("NxRemoteCache", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "NxRemoteCache");
+
+    const pipeline = new PDKPipeline(stack, "NxRemoteCache", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "NxRemoteCache",
+      synth: {},
+      nxRemoteCache: true,
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::S3::Bucket", {
+      BucketEncryption: {
+        ServerSideEncryptionConfiguration: [
+          Match.objectLike({
+            ServerSideEncryptionByDefault: Match.objectLike({
+              SSEAlgorithm: "aws:kms",
+            }),
+          }),
+        ],
+      },
+      LifecycleConfiguration: Match.anyValue(),
+    });
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Environment: Match.objectLike({
+        EnvironmentVariables: Match.arrayWith([
+          Match.objectLike({ Name: "NX_AWS_BUCKET" }),
+          Match.objectLike({ Name: "NX_AWS_REGION" }),
+        ]),
+      }),
+    });
+  });
+
+  it("Notifications", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "Notifications");
+
+    const pipeline = new PDKPipeline(stack, "Notifications", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "Notifications",
+      synth: {},
+      sonarCodeScannerConfig: {
+        sonarqubeEndpoint: "https://sonarqube.example.com",
+        sonarqubeDefaultProfileOrGateName: "Default",
+        sonarqubeAuthorizedGroup: "developers",
+        sonarqubeProjectName: "Notifications",
+      },
+      notificationsConfig: {
+        emails: ["team@example.com"],
+        slackChannel: {
+          slackWorkspaceId: "T0123ABCD",
+          slackChannelId: "C0123ABCD",
+        },
+        chimeWebhookUrlSecret: Secret.fromSecretNameV2(
+          stack,
+          "ChimeWebhookUrl",
+          "chime-webhook-url"
+        ),
+      },
+    });
+
+    new Stack(app, "AppStack");
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.resourceCountIs("AWS::CodeStarNotifications::NotificationRule", 3);
+    template.hasResourceProperties(
+      "AWS::CodeStarNotifications::NotificationRule",
+      {
+        EventTypeIds: [
+          "codepipeline-pipeline-pipeline-execution-failed",
+          "codepipeline-pipeline-pipeline-execution-canceled",
+        ],
+        Targets: Match.arrayWith([
+          Match.objectLike({ TargetType: "SNS" }),
+          Match.objectLike({ TargetType: "AWSChatbotSlack" }),
+        ]),
+      }
+    );
+    template.hasResourceProperties("AWS::SNS::Topic", {
+      KmsMasterKeyId: Match.anyValue(),
+    });
+    template.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "team@example.com",
+    });
+    template.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "lambda",
+    });
+    template.hasResourceProperties("AWS::Lambda::Function", {
+      Handler: "index.onEvent",
+      Environment: {
+        Variables: {
+          CHIME_WEBHOOK_SECRET_ARN: Match.anyValue(),
+        },
+      },
+    });
+    template.hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(["secretsmanager:GetSecretValue"]),
+          }),
+        ]),
+      },
+    });
+  });
+
+  it("AccountStage", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "AccountStage", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+
+    const pipeline = new PDKPipeline(stack, "AccountStage", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "AccountStage",
+      synth: {},
+      crossAccountKeys: true,
+    });
+
+    const stage = new Stage(app, "Prod", {
+      env: { account: "222222222222", region: "ap-southeast-2" },
+    });
+    new Stack(stage, "AppStack");
+
+    pipeline.addAccountStage({ stage, approval: true });
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Prod",
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: "BootstrapValidation", RunOrder: 1 }),
+            Match.objectLike({ Name: "Approval", RunOrder: 2 }),
+          ]),
+        }),
+      ]),
+    });
+  });
+
+  it("AccountStageApproval", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "AccountStageApproval", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+
+    const pipeline = new PDKPipeline(stack, "AccountStageApproval", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "AccountStageApproval",
+      synth: {},
+      crossAccountKeys: true,
+    });
+
+    const stage = new Stage(app, "Prod", {
+      env: { account: "222222222222", region: "ap-southeast-2" },
+    });
+    new Stack(stage, "AppStack");
+
+    pipeline.addAccountStage({
+      stage,
+      approvalConfig: {
+        changeSetReview: true,
+        notificationEmails: ["approver@example.com"],
+      },
+    });
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::SNS::Topic", {
+      KmsMasterKeyId: Match.anyValue(),
+    });
+    template.hasResourceProperties("AWS::SNS::Subscription", {
+      Protocol: "email",
+      Endpoint: "approver@example.com",
+    });
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Prod",
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: "BootstrapValidation", RunOrder: 1 }),
+            Match.objectLike({ Name: "ChangeSetReview", RunOrder: 2 }),
+            Match.objectLike({
+              Name: "Approval",
+              RunOrder: 3,
+              Configuration: Match.objectLike({
+                NotificationArn: Match.anyValue(),
+                ExternalEntityLink: Match.anyValue(),
+              }),
+            }),
+          ]),
+        }),
+      ]),
+    });
+  });
+
+  it("StageApproval", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "StageApproval");
+
+    const pipeline = new PDKPipeline(stack, "StageApproval", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "StageApproval",
+      synth: {},
+    });
+
+    const stage = new Stage(app, "Prod");
+    new Stack(stage, "AppStack");
+
+    pipeline.addStage(stage, {
+      pre: pipeline.createApprovalSteps(stage, {
+        changeSetReview: true,
+        comment: "x".repeat(600),
+      }),
+    });
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Prod",
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: "ChangeSetReview", RunOrder: 1 }),
+            Match.objectLike({
+              Name: "Approval",
+              RunOrder: 2,
+              Configuration: Match.objectLike({
+                CustomData: Match.stringLikeRegexp(`^${"x".repeat(498)}: #{`),
+              }),
+            }),
+          ]),
+        }),
+      ]),
+    });
+
+    // The comment fills the approval request, leaving no room for the summary
+    const templateJson = JSON.stringify(template.toJSON());
+    expect(templateJson).toContain("head -c 0 ");
+    expect(templateJson).toContain("-lookup-role-");
+  });
+
+  it("AccountStageIntegrationTest", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "AccountStageIntegrationTest", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+
+    const pipeline = new PDKPipeline(stack, "AccountStageIntegrationTest", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "AccountStageIntegrationTest",
+      synth: {},
+      crossAccountKeys: true,
+    });
+
+    const stage = new Stage(app, "Prod", {
+      env: { account: "222222222222", region: "ap-southeast-2" },
+    });
+    const appStack = new Stack(stage, "AppStack");
+    const apiUrl = new CfnOutput(appStack, "ApiUrl", {
+      value: "https://example.com",
+    });
+
+    pipeline.addAccountStage({
+      stage,
+      approval: true,
+      integrationTest: {
+        commands: ["curl --fail $API_URL"],
+        envFromCfnOutputs: { API_URL: apiUrl },
+      },
+    });
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Prod",
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: "BootstrapValidation", RunOrder: 1 }),
+            Match.objectLike({ Name: "Approval", RunOrder: 2 }),
+            Match.objectLike({ Name: "CaptureTemplates", RunOrder: 3 }),
+            Match.objectLike({ Name: "IntegrationTest" }),
+          ]),
+        }),
+      ]),
+    });
+
+    const templateJson = JSON.stringify(template.toJSON());
+    expect(templateJson).toContain(
+      "--template-stage Original --query TemplateBody"
+    );
+    expect(templateJson).toContain(
+      "cdk-hnb659fds-cfn-exec-role-222222222222-ap-southeast-2"
+    );
+  });
+
+  it("StageIntegrationTest", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "StageIntegrationTest");
+
+    const pipeline = new PDKPipeline(stack, "StageIntegrationTest", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "StageIntegrationTest",
+      synth: {},
+    });
+
+    const stage = new Stage(app, "Dev");
+    const appStack = new Stack(stage, "AppStack");
+    const websiteUrl = new CfnOutput(appStack, "WebsiteUrl", {
+      value: "https://example.com",
+    });
+
+    const integrationTest = new StageIntegrationTest(pipeline, stage, {
+      commands: ["curl --fail $WEBSITE_URL"],
+      envFromCfnOutputs: { WEBSITE_URL: websiteUrl },
+      rollbackOnFailure: false,
+    });
+    pipeline.addStage(stage, {
+      pre: integrationTest.pre,
+      post: integrationTest.post,
+    });
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Dev",
+          Actions: Match.not(
+            Match.arrayWith([Match.objectLike({ Name: "CaptureTemplates" })])
+          ),
+        }),
+      ]),
+    });
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Dev",
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: "IntegrationTest" }),
+          ]),
+        }),
+      ]),
+    });
+  });
+
+  it("StageIntegrationTestRollback", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "StageIntegrationTestRollback", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+
+    const pipeline = new PDKPipeline(stack, "StageIntegrationTestRollback", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "StageIntegrationTestRollback",
+      synth: {},
+    });
+
+    const stage = new Stage(app, "Dev");
+    new Stack(stage, "AppStack");
+
+    const integrationTest = new StageIntegrationTest(pipeline, stage, {
+      commands: ["echo test"],
+    });
+    pipeline.addStage(stage, {
+      pre: integrationTest.pre,
+      post: integrationTest.post,
+    });
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    // The partition of the role arns is resolved at deploy time
+    const roleArn = (role: string) =>
+      `:iam::111111111111:role/cdk-hnb659fds-${role}-111111111111-ap-southeast-2`;
+    const assumedRoles = (projectName: string) =>
+      Object.values(Template.fromStack(stack).findResources("AWS::IAM::Policy"))
+        .filter((policy) =>
+          JSON.stringify(policy.Properties.Roles).includes(projectName)
+        )
+        .flatMap((policy) => policy.Properties.PolicyDocument.Statement)
+        .filter(
+          (statement: { Action: string }) =>
+            statement.Action === "sts:AssumeRole"
+        )
+        .map((statement: { Resource: unknown }) =>
+          JSON.stringify(statement.Resource)
+        )
+        .join();
+
+    // Only the deploy role is needed to capture the templates
+    expect(assumedRoles("CaptureTemplates")).toContain(roleArn("deploy-role"));
+    expect(assumedRoles("CaptureTemplates")).not.toContain(
+      roleArn("file-publishing-role")
+    );
+    expect(assumedRoles("IntegrationTest")).toContain(roleArn("deploy-role"));
+    expect(assumedRoles("IntegrationTest")).toContain(
+      roleArn("file-publishing-role")
+    );
+
+    // The deploy role may only read from the assets bucket, so the template is uploaded via the file publishing role
+    const templateJson = JSON.stringify(Template.fromStack(stack).toJSON());
+    expect(templateJson).toMatch(
+      new RegExp(
+        `${roleArn(
+          "file-publishing-role"
+        )} [^)]*\\) && aws s3 cp previous-templates/Dev-AppStack\\.json s3://cdk-hnb659fds-assets-111111111111-ap-southeast-2/`
+      )
+    );
+    expect(templateJson).toMatch(
+      new RegExp(
+        `${roleArn(
+          "deploy-role"
+        )} [^)]*\\) && PARAMETERS=\`jq [^\`]*\` && aws cloudformation update-stack`
+      )
+    );
+  });
+
+  it("AccountStageRequiresCrossAccountKeys", () => {
+    const app = PDKNag.app();
+    const stack = new Stack(app, "AccountStageRequiresCrossAccountKeys", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+
+    const pipeline = new PDKPipeline(
+      stack,
+      "AccountStageRequiresCrossAccountKeys",
+      {
+        primarySynthDirectory: "cdk.out",
+        repositoryName: "AccountStageRequiresCrossAccountKeys",
+        synth: {},
+      }
+    );
+
+    expect(() =>
+      pipeline.addAccountStage({
+        stage: new Stage(app, "Prod", {
+          env: { account: "222222222222", region: "ap-southeast-2" },
+        }),
+      })
+    ).toThrow(
+      "Unable to add account stage Prod as deploying to account 222222222222 from 111111111111 requires crossAccountKeys to be enabled."
+    );
+    expect(() =>
+      pipeline.addAccountStage({ stage: new Stage(app, "Unresolved") })
+    ).toThrow(
+      "Unable to add account stage Unresolved as its account and region are not explicitly set."
+    );
+  });
+
+  it("AccountStageNotBootstrapped", () => {
+    const createPipeline = (app: Stage) => {
+      const stack = new Stack(app, "AccountStageNotBootstrapped", {
+        env: { account: "111111111111", region: "ap-southeast-2" },
+      });
+      const pipeline = new PDKPipeline(stack, "AccountStageNotBootstrapped", {
+        primarySynthDirectory: "cdk.out",
+        repositoryName: "AccountStageNotBootstrapped",
+        synth: {},
+        crossAccountKeys: true,
+      });
+      const stage = new Stage(app, "Prod", {
+        env: { account: "222222222222", region: "ap-southeast-2" },
+      });
+      new Stack(stage, "AppStack");
+
+      return () => pipeline.addAccountStage({ stage });
+    };
+
+    const app = PDKNag.app();
+    createPipeline(app)();
+    const [missing] = app.synth().manifest.missing || [];
+    expect(missing).toMatchObject({
+      provider: "ssm",
+      props: {
+        account: "222222222222",
+        region: "ap-southeast-2",
+        parameterName: "/cdk-bootstrap/hnb659fds/version",
+        lookupRoleArn:
+          "arn:${AWS::Partition}:iam::222222222222:role/cdk-hnb659fds-lookup-role-222222222222-ap-southeast-2",
+      },
+    });
+
+    const notBootstrappedApp = PDKNag.app({
+      context: {
+        [missing.key]: { $providerError: "AccessDenied" },
+      },
+    });
+    expect(createPipeline(notBootstrappedApp)).toThrow(
+      "Environment aws://222222222222/ap-southeast-2 is not bootstrapped with a trust to the pipeline account 111111111111. Run: npx cdk bootstrap aws://222222222222/ap-southeast-2 --trust 111111111111 --cloudformation-execution-policies <policy-arn> (AccessDenied)"
+    );
+  });
+
+  it("CrossRegionStage", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "CrossRegionStage", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+
+    const pipeline = new PDKPipeline(stack, "CrossRegionStage", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "CrossRegionStage",
+      synth: {},
+      crossAccountKeys: true,
+    });
+
+    const stage = new Stage(app, "Prod", {
+      env: { account: "222222222222", region: "eu-west-1" },
+    });
+    new Stack(stage, "AppStack");
+
+    pipeline.addAccountStage({ stage });
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    Template.fromStack(
+      pipeline.pipeline.crossRegionSupport["eu-west-1"].stack
+    ).resourceCountIs("AWS::S3::Bucket", 1);
+    Template.fromStack(stack).hasResourceProperties("AWS::IAM::Policy", {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(["kms:Decrypt"]),
+            Resource: [
+              {
+                "Fn::Join": [
+                  "",
+                  [
+                    "arn:",
+                    { Ref: "AWS::Partition" },
+                    ":kms:eu-west-1:111111111111:key/*",
+                  ],
+                ],
+              },
+            ],
+          }),
+        ]),
+      },
+    });
+    expect(pipeline.nagSuppressions.findStaleSuppressions()).toEqual([]);
+  });
+
+  it("ContainerAssets", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "ContainerAssets", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+    const registrySecret = Secret.fromSecretNameV2(
+      stack,
+      "RegistrySecret",
+      "registry"
+    );
+
+    const pipeline = new PDKPipeline(stack, "ContainerAssets", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "ContainerAssets",
+      synth: {},
+      crossAccountKeys: true,
+      containerAssetsConfig: {
+        dockerCredentials: [
+          DockerCredential.customRegistry(
+            "registry.example.com",
+            registrySecret
+          ),
+        ],
+        dockerEnabledForSynth: true,
+        buildEnvironment: { computeType: ComputeType.LARGE },
+        imageScanOnPush: true,
+        imageScanFailureThreshold: ImageScanFindingSeverity.CRITICAL,
+      },
+    });
+
+    const stage = new Stage(app, "Prod", {
+      env: { account: "222222222222", region: "ap-southeast-2" },
+    });
+    const appStack = new Stack(stage, "AppStack");
+    const image = new DockerImageAsset(appStack, "Image", {
+      directory: path.join(__dirname, "docker"),
+    });
+
+    pipeline.addAccountStage({ stage });
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    // Asset publishing
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Environment: Match.objectLike({
+        ComputeType: "BUILD_GENERAL1_LARGE",
+        PrivilegedMode: true,
+      }),
+    });
+    // Synth
+    template.hasResourceProperties("AWS::CodeBuild::Project", {
+      Environment: Match.objectLike({
+        ComputeType: "BUILD_GENERAL1_SMALL",
+        PrivilegedMode: true,
+      }),
+    });
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "Prod",
+          Actions: Match.arrayWith([
+            Match.objectLike({ Name: "AppStack.Prepare", RunOrder: 2 }),
+            Match.objectLike({ Name: "AppStack.ImageScan", RunOrder: 3 }),
+            Match.objectLike({ Name: "AppStack.Deploy", RunOrder: 4 }),
+          ]),
+        }),
+      ]),
+    });
+
+    const templateJson = JSON.stringify(template.toJSON());
+    expect(templateJson).toContain("registry.example.com");
+    expect(templateJson).toContain(
+      "--repository-name cdk-hnb659fds-container-assets-222222222222-ap-southeast-2"
+    );
+    expect(templateJson).toContain(`--image-id imageTag=${image.assetHash}`);
+    expect(templateJson).toContain(
+      "sum([imageScanFindings.findingSeverityCounts.CRITICAL || `0`])"
+    );
+  });
+
+  it("DriftReport", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "DriftReport", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+
+    const pipeline = new PDKPipeline(stack, "DriftReport", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "DriftReport",
+      synth: {},
+      crossAccountKeys: true,
+      driftReportConfig: {
+        schedule: Schedule.cron({ hour: "0", minute: "0" }),
+      },
+    });
+
+    const devStage = new Stage(app, "Dev");
+    new Stack(devStage, "AppStack");
+    pipeline.addStage(devStage);
+
+    const prodStage = new Stage(app, "Prod", {
+      env: { account: "222222222222", region: "ap-southeast-2" },
+    });
+    new Stack(prodStage, "AppStack");
+    pipeline.addAccountStage({
+      stage: prodStage,
+      bootstrapQualifier: "custom",
+    });
+
+    pipeline.buildPipeline();
+
+    app.synth();
+
+    const template = Template.fromStack(stack);
+    template.hasResourceProperties("AWS::Events::Rule", {
+      ScheduleExpression: "cron(0 0 * * ? *)",
+    });
+    template.hasResourceProperties("AWS::CodePipeline::Pipeline", {
+      Stages: Match.arrayWith([
+        Match.objectLike({
+          Name: "DriftReport",
+          Actions: [Match.objectLike({ Name: "PublishCloudAssembly" })],
+        }),
+      ]),
+    });
+
+    const templateJson = JSON.stringify(template.toJSON());
+    expect(templateJson).toContain(
+      "detect-stack-drift --stack-name Dev-AppStack"
+    );
+    expect(templateJson).toContain(
+      "cdk-hnb659fds-lookup-role-111111111111-ap-southeast-2"
+    );
+    expect(templateJson).toContain(
+      "cdk-custom-lookup-role-222222222222-ap-southeast-2"
+    );
+    expect(templateJson).toContain(
+      "--template-body file://cdk.out/assembly-Prod/ProdAppStack1BDC2C16.template.json"
+    );
+    expect(pipeline.driftReport?.reportUri).toMatch(/\/drift-reports$/);
+    expect(pipeline.nagSuppressions.findStaleSuppressions()).toEqual([]);
+  });
+
+  it("NagSuppressions", () => {
+    const app = PDKNag.app({ failOnError: true });
+    const stack = new Stack(app, "NagSuppressions", {
+      env: { account: "111111111111", region: "ap-southeast-2" },
+    });
+
+    const pipeline = new PDKPipeline(stack, "NagSuppressions", {
+      primarySynthDirectory: "cdk.out",
+      repositoryName: "NagSuppressions",
+      synth: {},
+      crossAccountKeys: true,
+      nxAffected: true,
+      nxRemoteCache: true,
+    });
+
+    // Suppressions are computed from the constructs, so stages and assets need no additional suppressions
+    ["Dev", "Prod"].forEach((stageName) => {
+      const stage = new Stage(app, stageName, {
+        env: { account: "222222222222", region: "ap-southeast-2" },
+      });
+      const appStack = new Stack(stage, "AppStack");
+      new Asset(appStack, "Asset", {
+        path: path.join(__dirname, "pdk-pipeline.test.ts"),
+      });
+
+      pipeline.addAccountStage({
+        stage,
+        approval: true,
+        approvalConfig: { changeSetReview: true },
+        integrationTest: {
+          commands: ["echo test"],
+          rollbackOnFailure: true,
+        },
+      });
+    });
+    pipeline.buildPipeline();
+
+    pipeline.nagSuppressions.addSuppressions(
+      [pipeline.pipeline.role],
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "Suppression which does not match any finding.",
+          appliesTo: ["Action::sqs:*"],
+        },
+      ]
+    );
+
+    app.synth();
+
+    expect(pipeline.nagSuppressions.findStaleSuppressions()).toEqual([
+      {
+        paths: ["NagSuppressions/CodePipeline/Role"],
+        ruleId: "AwsSolutions-IAM5",
+        appliesTo: "Action::sqs:*",
+      },
+    ]);
+    Annotations.fromStack(stack).hasWarning(
+      "/NagSuppressions/NagSuppressions/NagSuppressions",
+      Match.stringLikeRegexp("Action::sqs:.*can be removed")
+    );
+  });
+
+  it("NagSuppressionRegistry", () => {
+    const app = new App();
+    const stack = new Stack(app, "NagSuppressionRegistry");
+    const registry = new NagSuppressionRegistry(stack, "Registry", {
+      failOnStaleSuppressions: true,
+    });
+
+    const role = new Role(stack, "Role", {
+      assumedBy: new ServicePrincipal("lambda.amazonaws.com"),
+    });
+    role.addToPolicy(
+      new PolicyStatement({
+        actions: ["s3:GetObject"],
+        resources: [
+          Fn.sub("arn:${AWS::Partition}:s3:::bucket/*"),
+          `${Fn.importValue("SharedBucketArn")}/*`,
+        ],
+      })
+    );
+
+    registry.addSuppressions(
+      [role],
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "Matched via regex.",
+          appliesTo: [
+            { regex: "/^Resource::arn:<AWS::Partition>:s3:::bucket\\/\\*$/g" },
+          ],
+        },
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "Matched via an imported value.",
+          appliesTo: ["Resource::SharedBucketArn/*"],
+        },
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "Does not match any finding.",
+          appliesTo: [{ regex: "/^Action::sqs:.*$/g" }],
+        },
+      ]
+    );
+
+    expect(registry.findStaleSuppressions()).toEqual([
+      {
+        paths: ["NagSuppressionRegistry/Role"],
+        ruleId: "AwsSolutions-IAM5",
+        appliesTo: "/^Action::sqs:.*$/g",
+      },
+    ]);
+    expect(() => app.synth()).toThrow(
+      "Nag suppression for AwsSolutions-IAM5 (/^Action::sqs:.*$/g) does not match any finding of NagSuppressionRegistry/Role and can be removed."
+    );
+  });
 });
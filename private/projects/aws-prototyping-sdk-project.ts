@@ -104,7 +104,8 @@ export class AwsPrototypingSdkProject extends PDKProject {
   }
 
   /**
-   * Returns a list of filtered dependencies which are not apart of the @aws-prototyping-sdk scope.
+   * Returns a list of filtered dependencies which are not apart of the @aws-prototyping-sdk scope, along with
+   * their version constraint where one is specified.
    *
    * @param deps list of all deps
    * @param type DependencyType to filter by
@@ -117,7 +118,7 @@ export class AwsPrototypingSdkProject extends PDKProject {
       .filter(
         (d) => d.type === type && !d.name.startsWith("@aws-prototyping-sdk")
       )
-      .map((d) => d.name);
+      .map((d) => (d.version ? `${d.name}@${d.version}` : d.name));
   }
 
   /**
@@ -27,11 +27,11 @@ export class PDKNagProject extends PDKProject {
       outdir: "packages/pdk-nag",
       defaultReleaseBranch: "mainline",
       sampleCode: false,
-      jest: false,
       name: "pdk-nag",
       depsUpgrade: false,
       peerDeps: ["aws-cdk-lib", "constructs", "cdk-nag"],
       devDeps: ["cdk-nag"],
+      bundledDeps: ["csv-parse@^4.16.3"],
       author: "AWS APJ COPE",
       authorAddress: "apj-cope@amazon.com",
       repositoryUrl: "https://github.com/aws/aws-prototyping-sdk",
@@ -15,7 +15,7 @@
  ******************************************************************************************************************** */
 import * as fs from "fs";
 import { XMLParser, XMLBuilder } from "fast-xml-parser";
-import { Project } from "projen";
+import { JsonFile, Project } from "projen";
 import { Stability } from "projen/lib/cdk";
 import { JavaProject } from "projen/lib/java";
 import { PythonProject } from "projen/lib/python";
@@ -38,7 +38,15 @@ export class PipelineProject extends PDKProject {
       name: "pipeline",
       keywords: ["aws", "pdk", "jsii", "projen"],
       repositoryUrl: "https://github.com/aws/aws-prototyping-sdk",
-      devDeps: ["projen", "aws-cdk-lib", "constructs", "cdk-nag"],
+      devDeps: [
+        "projen",
+        "@aws-sdk/client-codecommit",
+        "@aws-sdk/client-secrets-manager",
+        "@types/aws-lambda",
+        "aws-cdk-lib",
+        "constructs",
+        "cdk-nag",
+      ],
       peerDeps: ["projen", "aws-cdk-lib", "constructs", "cdk-nag"],
       deps: ["@aws-prototyping-sdk/pdk-nag"],
       stability: Stability.STABLE,
@@ -46,6 +54,17 @@ export class PipelineProject extends PDKProject {
 
     this.addPackageIgnore("**/node_modules");
 
+    // Lambda handlers are deployed without their dependencies, relying on the AWS SDK provided by the runtime
+    this.eslint?.addOverride({
+      files: ["src/**/*_handler/**"],
+      rules: {
+        "import/no-extraneous-dependencies": [
+          "error",
+          { devDependencies: true, optionalDependencies: false },
+        ],
+      },
+    });
+
     this._samples.push(
       new PipelineTypescriptSampleProject(parent),
       new PipelinePythonSampleProject(parent),
@@ -58,6 +77,15 @@ export class PipelineProject extends PDKProject {
   }
 }
 
+/**
+ * Environments manifest which the sample pipeline entrypoints read, as generated by the PDK pipeline projects.
+ */
+const addEnvironmentsManifest = (project: Project) =>
+  new JsonFile(project, "environments.json", {
+    obj: { environments: { Dev: { approvalRequired: false } } },
+    readonly: true,
+  });
+
 /**
  * Nested Typescript Sample Project configuration.
  */
@@ -80,6 +108,7 @@ export class PipelineTypescriptSampleProject extends TypeScriptProject {
     this.eslint?.addRules({
       "import/no-extraneous-dependencies": "off",
     });
+    addEnvironmentsManifest(this);
   }
 }
 
@@ -103,8 +132,11 @@ export class PipelinePythonSampleProject extends PythonProject {
         "pyhumps",
         "../../../aws-prototyping-sdk/dist/python/aws_prototyping_sdk-0.0.0-py3-none-any.whl",
       ],
+      devDeps: ["syrupy@^3.0.0"],
     });
 
+    addEnvironmentsManifest(this);
+
     // Re-deploy any changes to dependant local packages
     this.tasks.tryFind("install")?.reset();
     this.preCompileTask.exec("pip install --upgrade pip");
@@ -137,6 +169,7 @@ export class PipelineJavaSampleProject extends JavaProject {
     });
 
     this.testTask.exec("mvn test");
+    addEnvironmentsManifest(this);
 
     this.deps.postSynthesize = () => {
       const parser = new XMLParser({